@@ -0,0 +1,98 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// --- CONCURRENCY HELPERS ---
+
+/**
+ * Maps over items with at most `limit` calls in flight. Results keep the input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+  return results;
+}
+
+export type Limiter = <T>(fn: () => Promise<T>) => Promise<T>;
+
+/**
+ * Returns a function that runs callbacks with at most `limit` of them in flight,
+ * queueing the rest in call order. Unlike `mapWithConcurrency`, one limiter can be
+ * shared by independent callers.
+ */
+export function createLimiter(limit: number): Limiter {
+  const queue: (() => void)[] = [];
+  let active = 0;
+
+  // A finishing callback hands its slot straight to the next queued one.
+  const release = () => {
+    const next = queue.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  return async fn => {
+    if (active >= Math.max(1, limit)) {
+      await new Promise<void>(resolve => queue.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  };
+}
+
+// --- BUFFERED CONSOLE OUTPUT ---
+//
+// Namespaces translated in parallel would otherwise interleave their log lines.
+// Inside `withBufferedConsole`, console output is collected per async context and
+// printed as one block when the callback settles.
+
+type ConsoleMethod = 'log' | 'warn' | 'error';
+
+const consoleBuffer = new AsyncLocalStorage<{ method: ConsoleMethod; args: unknown[] }[]>();
+let consolePatched = false;
+
+function patchConsole(): void {
+  if (consolePatched) return;
+  consolePatched = true;
+  for (const method of ['log', 'warn', 'error'] as ConsoleMethod[]) {
+    const original = console[method].bind(console);
+    console[method] = (...args: unknown[]) => {
+      const buffer = consoleBuffer.getStore();
+      if (buffer) {
+        buffer.push({ method, args });
+      } else {
+        original(...args);
+      }
+    };
+  }
+}
+
+export async function withBufferedConsole<T>(fn: () => Promise<T>): Promise<T> {
+  patchConsole();
+  const buffer: { method: ConsoleMethod; args: unknown[] }[] = [];
+  try {
+    return await consoleBuffer.run(buffer, fn);
+  } finally {
+    buffer.forEach(({ method, args }) => console[method](...args));
+  }
+}
@@ -0,0 +1,194 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { DEFAULT_REQUEST_OPTIONS, ProviderRoutingSpec, RequestOptions } from './providers';
+import { isLocale, localeFallbackChain, normalizeLocale } from './locales';
+
+// --- TRANSLATIONS CONFIG ---
+
+export interface NamespaceConfig {
+  /** Namespace name. Also the output directory under `outputDir` and the CDN path segment. */
+  name: string;
+  /** Source JSON file, relative to the config file. */
+  source: string;
+  /** Language of the source file. Detected from the file name (e.g. `filters.en.json`) when omitted. */
+  sourceLanguage?: string;
+  /** Target languages for this namespace. Defaults to the top-level `languages`. */
+  languages?: string[];
+  /** Provider routing for this namespace. Replaces the top-level `providers`. */
+  providers?: ProviderRoutingSpec;
+}
+
+export interface TranslationsConfig {
+  /** Every language the apps support (BCP-47, e.g. `pt-BR`), including the source languages. */
+  languages: string[];
+  /** Source language used when neither the namespace nor the file name specifies one. */
+  defaultSourceLanguage: string;
+  /** Base output directory, relative to the config file. */
+  outputDir: string;
+  /** How many namespaces `--all` translates at the same time. */
+  concurrency: number;
+  providers?: ProviderRoutingSpec;
+  /** Provider request concurrency and retry settings. Batch sizes come from each provider's limits. */
+  requests?: Partial<RequestOptions>;
+  /**
+   * Character budgets by provider name (e.g. `{ "deepl": 450000 }`). DeepL's usage in the
+   * current billing period is checked before the first request and no request goes over
+   * the budget; providers without a usage endpoint count this run's characters only.
+   */
+  budgets?: { [provider: string]: number };
+  /** Translation memory file, relative to the config file. `false` disables the memory. */
+  memory?: string | false;
+  /**
+   * Fallback chains for locale variants, nearest first. Locales without an entry fall back
+   * to their shorter forms (`pt-BR` → `pt`); `[]` disables the fallback.
+   */
+  fallbacks?: { [locale: string]: string[] };
+  namespaces: NamespaceConfig[];
+}
+
+export interface LoadedConfig extends TranslationsConfig {
+  requests: RequestOptions;
+  budgets: { [provider: string]: number };
+  fallbacks: { [locale: string]: string[] };
+  /** Absolute path of the translation memory file, or false when disabled. */
+  memory: string | false;
+  /** Absolute path of the config file that was loaded. */
+  configPath: string;
+}
+
+const CONFIG_FILE_NAMES = ['translations.config.json', 'translations.config.ts'];
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MEMORY_PATH = './translation-memory.json';
+
+async function findConfigFile(explicitPath: string | undefined): Promise<string> {
+  if (explicitPath) return path.resolve(explicitPath);
+
+  const rootDir = path.resolve(__dirname, '..');
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const candidate = path.join(rootDir, fileName);
+    try {
+      await fs.access(candidate);
+      return candidate;
+    } catch (error) {
+      // Try the next file name
+    }
+  }
+  throw new Error(`No translations config found. Expected one of: ${CONFIG_FILE_NAMES.join(', ')}`);
+}
+
+async function readConfigFile(configPath: string): Promise<any> {
+  if (configPath.endsWith('.ts')) {
+    // Scripts run through ts-node, so TypeScript configs can be required directly.
+    const loaded = require(configPath);
+    return loaded.default ?? loaded;
+  }
+  return JSON.parse(await fs.readFile(configPath, 'utf-8'));
+}
+
+function assertStringArray(value: unknown, field: string): asserts value is string[] {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new Error(`Invalid translations config: '${field}' must be an array of language codes.`);
+  }
+}
+
+function toLocales(value: unknown, field: string): string[] {
+  assertStringArray(value, field);
+  return value.map(code => toLocale(code, field));
+}
+
+function toLocale(code: string, field: string): string {
+  if (!isLocale(code)) {
+    throw new Error(`Invalid translations config: '${code}' in '${field}' is not a BCP-47 language tag (e.g. de, pt-BR, zh-Hant).`);
+  }
+  return normalizeLocale(code);
+}
+
+function toBudgets(value: unknown): { [provider: string]: number } {
+  const budgets: { [provider: string]: number } = {};
+  for (const [provider, budget] of Object.entries(value ?? {})) {
+    if (typeof budget !== 'number' || !Number.isFinite(budget) || budget < 0) {
+      throw new Error(`Invalid translations config: 'budgets.${provider}' must be a number of characters.`);
+    }
+    budgets[provider.toLowerCase()] = budget;
+  }
+  return budgets;
+}
+
+/**
+ * Loads and checks the translations config. Paths are resolved relative to the config file.
+ */
+export async function loadConfig(explicitPath?: string): Promise<LoadedConfig> {
+  const configPath = await findConfigFile(explicitPath);
+  const raw = await readConfigFile(configPath);
+  const configDir = path.dirname(configPath);
+
+  const languages = toLocales(raw.languages, 'languages');
+  if (!Array.isArray(raw.namespaces) || raw.namespaces.length === 0) {
+    throw new Error(`Invalid translations config: 'namespaces' must list at least one namespace.`);
+  }
+
+  const seen = new Set<string>();
+  const namespaces: NamespaceConfig[] = raw.namespaces.map((entry: any, index: number) => {
+    if (typeof entry?.name !== 'string' || typeof entry?.source !== 'string') {
+      throw new Error(`Invalid translations config: namespaces[${index}] needs a 'name' and a 'source'.`);
+    }
+    if (seen.has(entry.name)) {
+      throw new Error(`Invalid translations config: namespace '${entry.name}' is declared twice.`);
+    }
+    seen.add(entry.name);
+    return {
+      ...entry,
+      source: path.resolve(configDir, entry.source),
+      sourceLanguage: entry.sourceLanguage === undefined ? undefined : toLocale(entry.sourceLanguage, `namespaces[${index}].sourceLanguage`),
+      languages: entry.languages === undefined ? undefined : toLocales(entry.languages, `namespaces[${index}].languages`),
+    };
+  });
+
+  const fallbacks: { [locale: string]: string[] } = {};
+  for (const [locale, chain] of Object.entries(raw.fallbacks ?? {})) {
+    fallbacks[toLocale(locale, 'fallbacks')] = toLocales(chain, `fallbacks.${locale}`);
+  }
+
+  return {
+    languages,
+    defaultSourceLanguage: raw.defaultSourceLanguage === undefined ? languages[0] : toLocale(raw.defaultSourceLanguage, 'defaultSourceLanguage'),
+    outputDir: path.resolve(configDir, raw.outputDir ?? './dist'),
+    concurrency: raw.concurrency ?? DEFAULT_CONCURRENCY,
+    providers: raw.providers,
+    requests: { ...DEFAULT_REQUEST_OPTIONS, ...raw.requests },
+    budgets: toBudgets(raw.budgets),
+    memory: raw.memory === false ? false : path.resolve(configDir, raw.memory ?? DEFAULT_MEMORY_PATH),
+    fallbacks,
+    namespaces,
+    configPath,
+  };
+}
+
+/**
+ * Detects the source language from the filename.
+ * If filename contains a language code before .json (e.g., filters.en.json or news.pt-BR.json), uses that.
+ * Otherwise, returns the configured default source language.
+ */
+export function detectSourceLanguage(sourceFilePath: string, config: TranslationsConfig): string {
+  const filename = path.basename(sourceFilePath);
+  // Match pattern: filename.LOCALE.json (e.g., filters.en.json, news.pt-BR.json)
+  const match = filename.match(/\.([a-z]{2,3}(?:[-_][a-z0-9]{2,8})*)(\.json)$/i);
+
+  if (match && match[1] && isLocale(match[1])) {
+    const detectedLang = normalizeLocale(match[1]);
+    // Verify it's a valid language code from our supported list
+    if (config.languages.includes(detectedLang)) {
+      return detectedLang;
+    }
+  }
+
+  return config.defaultSourceLanguage;
+}
+
+/**
+ * Fallback chain of a target language within a namespace, nearest first (e.g. `pt-BR` → `pt`).
+ * Empty for languages that are not variants of another configured language.
+ */
+export function resolveFallbackChain(lang: string, namespace: NamespaceConfig | undefined, config: LoadedConfig): string[] {
+  return localeFallbackChain(lang, namespace?.languages ?? config.languages, config.fallbacks);
+}
@@ -0,0 +1,91 @@
+import { isTranslationEntry } from './entries';
+
+// --- CHANGE DETECTION REPORTING (--dry-run / --diff) ---
+
+export interface LanguageChanges {
+  /** Keys with no cached translation. */
+  added: string[];
+  /** Keys whose source text changed since the cached translation. */
+  changed: string[];
+  /** Cached keys that no longer exist in the source. */
+  removed: string[];
+  /** Keys whose published value an override will change. */
+  overridden: string[];
+}
+
+type FlatTranslations = { [key: string]: any };
+
+function displayValue(value: any): string {
+  return isTranslationEntry(value) ? value.translation : JSON.stringify(value);
+}
+
+function sameValue(a: any, b: any): boolean {
+  return displayValue(a) === displayValue(b);
+}
+
+/** Keys whose published value differs between the two versions. */
+export function changedKeys(before: FlatTranslations, after: FlatTranslations, keys: string[]): string[] {
+  return keys.filter(key => !sameValue(before[key], after[key]));
+}
+
+/**
+ * Splits the keys that need translation into new and changed ones and finds
+ * cached keys that were removed from the source.
+ */
+export function classifyChanges(
+  keysToTranslate: string[],
+  cachedTranslations: FlatTranslations,
+  sourceKeys: string[]
+): Omit<LanguageChanges, 'overridden'> {
+  const sourceKeySet = new Set(sourceKeys);
+  return {
+    added: keysToTranslate.filter(key => cachedTranslations[key] === undefined),
+    changed: keysToTranslate.filter(key => cachedTranslations[key] !== undefined),
+    removed: Object.keys(cachedTranslations).filter(key => !sourceKeySet.has(key)),
+  };
+}
+
+export function printChanges(changes: LanguageChanges): void {
+  const sections: [string, string[]][] = [
+    ['New', changes.added],
+    ['Changed', changes.changed],
+    ['Removed', changes.removed],
+    ['Overridden', changes.overridden],
+  ];
+  for (const [label, keys] of sections) {
+    if (keys.length === 0) continue;
+    console.log(`   - ${label} (${keys.length}): ${keys.join(', ')}`);
+  }
+}
+
+/**
+ * Prints old and new values for every key whose published value differs.
+ * `pending` holds source texts that would be sent to a provider (dry runs),
+ * shown in place of a translation that does not exist yet.
+ */
+export function printDiff(
+  before: FlatTranslations,
+  after: FlatTranslations,
+  keys: string[],
+  pending: { [key: string]: string } = {}
+): void {
+  const lines: string[] = [];
+  for (const key of keys) {
+    const oldValue = before[key];
+    const newValue = after[key];
+    const pendingText = pending[key];
+    if (pendingText === undefined && sameValue(oldValue, newValue)) continue;
+
+    lines.push(`     ~ ${key}`);
+    if (oldValue !== undefined) lines.push(`         - ${displayValue(oldValue)}`);
+    if (pendingText !== undefined) {
+      lines.push(`         + (to translate) ${pendingText}`);
+    } else if (newValue !== undefined) {
+      lines.push(`         + ${displayValue(newValue)}`);
+    }
+  }
+  if (lines.length > 0) {
+    console.log('   - Diff:');
+    lines.forEach(line => console.log(line));
+  }
+}
@@ -0,0 +1,122 @@
+import { createHash } from 'crypto';
+
+// --- HASHING & DATA STRUCTURE ---
+export interface TranslationEntry {
+  translation: string;
+  sourceHash: string;
+  /**
+   * Provider output an override replaced, as older builds published it. Only read, to
+   * migrate those files; overrides now keep it in `<lang>.machine.json` (see overrides.ts).
+   */
+  machineTranslation?: string;
+}
+
+export function md5(text: string): string {
+  return createHash('md5').update(text).digest('hex');
+}
+
+export function isTranslationEntry(obj: any): obj is TranslationEntry {
+  return typeof obj === 'object' && obj !== null && 'translation' in obj && 'sourceHash' in obj;
+}
+
+// --- KEY CONTEXT ---
+
+/**
+ * Developer notes for a key, written in a `_meta` block next to it in the source file:
+ * `{ "_albumScreen_select": "Seç", "_meta": { "_albumScreen_select": { "type": "button" } } }`.
+ * Sent to providers that accept context and exported as notes for reviewers.
+ */
+export interface KeyContext {
+  /** What the text means and where it appears. */
+  description?: string;
+  /** Character limit, checked like the ones in length-limits.json. */
+  maxLength?: number;
+  /** UI element showing the text, e.g. `button`, `title`, `toast`. */
+  type?: string;
+  formality?: 'formal' | 'informal';
+}
+
+/** Reserved key of the context blocks. Never part of the translated keys. */
+export const META_KEY = '_meta';
+
+function toKeyContext(value: any, key: string): KeyContext {
+  const invalid = (reason: string) => new Error(`Invalid ${META_KEY} entry for '${key}': ${reason}`);
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw invalid('expected an object.');
+  const { description, maxLength, type, formality } = value;
+  if (description !== undefined && typeof description !== 'string') throw invalid(`'description' must be a string.`);
+  if (maxLength !== undefined && (!Number.isInteger(maxLength) || maxLength <= 0)) throw invalid(`'maxLength' must be a positive integer.`);
+  if (type !== undefined && typeof type !== 'string') throw invalid(`'type' must be a string.`);
+  if (formality !== undefined && formality !== 'formal' && formality !== 'informal') throw invalid(`'formality' must be 'formal' or 'informal'.`);
+  return { description, maxLength, type, formality };
+}
+
+/**
+ * Collects the `_meta` blocks of a source file, keyed like `flattenObject` output. A block
+ * describes the keys of the object it is in, so nested blocks get the same prefix.
+ */
+export function extractKeyContexts(obj: any, prefix: string = ''): { [key: string]: KeyContext } {
+  const result: { [key: string]: KeyContext } = {};
+
+  for (const key in obj) {
+    if (!obj.hasOwnProperty(key)) continue;
+    const value = obj[key];
+    if (key === META_KEY) {
+      for (const [name, context] of Object.entries(value ?? {})) {
+        const fullKey = prefix ? `${prefix}.${name}` : name;
+        result[fullKey] = toKeyContext(context, fullKey);
+      }
+    } else if (typeof value === 'object' && value !== null && !Array.isArray(value) && !isTranslationEntry(value)) {
+      Object.assign(result, extractKeyContexts(value, prefix ? `${prefix}.${key}` : key));
+    }
+  }
+  return result;
+}
+
+// --- UTILITY FUNCTIONS for nested JSON ---
+
+export function flattenObject(obj: any, prefix: string = ''): { [key: string]: any } {
+  const result: { [key: string]: any } = {};
+
+  for (const key in obj) {
+    // Context blocks describe keys, they are not keys themselves.
+    if (obj.hasOwnProperty(key) && key !== META_KEY) {
+      const newKey = prefix ? `${prefix}.${key}` : key;
+      const value = obj[key];
+
+      // If it's a TranslationEntry, we treat it as a final value and don't flatten it further.
+      // Also, if it's not an object, treat it as a final value.
+      if (
+        isTranslationEntry(value) ||
+        typeof value !== 'object' ||
+        value === null ||
+        Array.isArray(value)
+      ) {
+        result[newKey] = value;
+      } else {
+        // Otherwise, it's a nested structure of more keys, so we recurse.
+        Object.assign(result, flattenObject(value, newKey));
+      }
+    }
+  }
+  return result;
+}
+
+export function unflattenObject(obj: { [key: string]: any }): any {
+  if (Object.keys(obj).length === 0) return {};
+  const result: any = {};
+
+  for (const key in obj) {
+    if (obj.hasOwnProperty(key)) {
+      const keys = key.split('.');
+      keys.reduce((acc, currentKey, index) => {
+        if (index === keys.length - 1) {
+          acc[currentKey] = obj[key];
+        } else {
+          acc[currentKey] = acc[currentKey] || {};
+        }
+        return acc[currentKey];
+      }, result);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,150 @@
+import fs from 'fs/promises';
+import path from 'path';
+import yargs from 'yargs/yargs';
+import { hideBin } from 'yargs/helpers';
+import { detectSourceLanguage, LoadedConfig, loadConfig, NamespaceConfig, resolveFallbackChain } from './config';
+import { flattenObject } from './entries';
+import { hasIcuSyntax, IcuNode, parseIcuMessage } from './icu';
+
+// --- TYPE GENERATION ---
+//
+// Generates src/generated/<namespace>.ts (key unions and placeholder params) and
+// src/generated/index.ts (the namespace map) from the source files declared in
+// translations.config.json. `npm run build:package` compiles them into lib/.
+
+const GENERATED_HEADER = '// This file is generated by scripts/generate-types.ts. Do not edit.';
+const SIMPLE_PLACEHOLDER_REGEX = /\{\{?\s*(\w+)\s*\}?\}/g;
+
+function toPascalCase(name: string): string {
+  return name.split(/[^a-zA-Z0-9]+/).filter(Boolean).map(part => part[0].toUpperCase() + part.slice(1)).join('');
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Adds the params used by parsed ICU nodes. Plural/selectordinal arguments are numbers,
+ * select arguments a union of their branch keys (any other string picks `other`), and
+ * placeholders in text accept a string or a number. Branch bodies are text, not params.
+ */
+function collectIcuParams(nodes: IcuNode[], params: Map<string, string>): void {
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      for (const [, name] of node.value.matchAll(SIMPLE_PLACEHOLDER_REGEX)) {
+        if (!params.has(name)) params.set(name, 'InterpolationValue');
+      }
+      continue;
+    }
+    if (node.type === 'select') {
+      const keys = node.branches.map(branch => branch.key).filter(key => key !== 'other');
+      params.set(node.name, [...keys.map(quote), '(string & {})'].join(' | '));
+    } else {
+      params.set(node.name, 'number');
+    }
+    node.branches.forEach(branch => collectIcuParams(branch.nodes, params));
+  }
+}
+
+/** Collects the params a string needs. Strings that fail to parse as ICU are read as plain text. */
+function extractParams(text: string): Map<string, string> {
+  const params = new Map<string, string>();
+  let nodes: IcuNode[] = [{ type: 'text', value: text }];
+  if (hasIcuSyntax(text)) {
+    try {
+      nodes = parseIcuMessage(text);
+    } catch (error) {
+      console.warn(`   - ICU: ${(error as Error).message}. Typing its placeholders as plain text.`);
+    }
+  }
+  collectIcuParams(nodes, params);
+  return params;
+}
+
+async function generateNamespace(namespace: NamespaceConfig): Promise<string> {
+  const sourceJson = JSON.parse(await fs.readFile(namespace.source, 'utf-8'));
+  const flatSource = flattenObject(sourceJson);
+  const typeName = toPascalCase(namespace.name);
+  const keys = Object.keys(flatSource).filter(key => typeof flatSource[key] === 'string');
+
+  const paramLines = keys.map(key => {
+    const params = extractParams(flatSource[key]);
+    const body = [...params].map(([name, type]) => `${name}: ${type}`).join('; ');
+    return `  ${quote(key)}: {${body ? ` ${body} ` : ''}};`;
+  });
+
+  return [
+    GENERATED_HEADER,
+    `// Source: ${path.relative(path.resolve(__dirname, '..'), namespace.source)}`,
+    '',
+    `import type { InterpolationValue } from '../translator';`,
+    '',
+    `export type ${typeName}Key =`,
+    ...(keys.length > 0 ? keys.map(key => `  | ${quote(key)}`) : ['  never']),
+    ';',
+    '',
+    `export interface ${typeName}Params {`,
+    ...paramLines,
+    '}',
+    '',
+  ].join('\n');
+}
+
+function generateIndex(config: LoadedConfig): string {
+  const { namespaces } = config;
+  const fallbacks = config.languages
+    .map(lang => [lang, resolveFallbackChain(lang, undefined, config)] as const)
+    .filter(([lang, chain]) => chain.length > 0 || lang.includes('-'));
+  return [
+    GENERATED_HEADER,
+    '',
+    ...namespaces.map(ns => `import type { ${toPascalCase(ns.name)}Params } from './${ns.name}';`),
+    '',
+    ...namespaces.map(ns => `export type { ${toPascalCase(ns.name)}Key, ${toPascalCase(ns.name)}Params } from './${ns.name}';`),
+    '',
+    'export interface TranslationNamespaces {',
+    ...namespaces.map(ns => `  ${quote(ns.name)}: ${toPascalCase(ns.name)}Params;`),
+    '}',
+    '',
+    'export type Namespace = keyof TranslationNamespaces;',
+    '',
+    'export type TranslationKey<N extends Namespace> = keyof TranslationNamespaces[N] & string;',
+    '',
+    `export const NAMESPACES: Namespace[] = [${namespaces.map(ns => quote(ns.name)).join(', ')}];`,
+    '',
+    'export const NAMESPACE_SOURCE_LANGUAGES: { [N in Namespace]: string } = {',
+    ...namespaces.map(ns => `  ${quote(ns.name)}: ${quote(ns.sourceLanguage ?? detectSourceLanguage(ns.source, config))},`),
+    '};',
+    '',
+    '/** Locale variants and the languages they fall back to, nearest first (`[]`: no fallback). */',
+    'export const LOCALE_FALLBACKS: { [language: string]: string[] } = {',
+    ...fallbacks.map(([lang, chain]) => `  ${quote(lang)}: [${chain.map(quote).join(', ')}],`),
+    '};',
+    '',
+  ].join('\n');
+}
+
+async function run() {
+  const argv = await yargs(hideBin(process.argv))
+    .option('config', { alias: 'c', type: 'string', description: 'Path to translations.config.(json|ts). Defaults to the repository root.' })
+    .option('out', { type: 'string', default: path.resolve(__dirname, '../src/generated'), description: 'Output directory for the generated files' })
+    .help().argv;
+
+  try {
+    const config = await loadConfig(argv.config);
+    await fs.rm(argv.out, { recursive: true, force: true });
+    await fs.mkdir(argv.out, { recursive: true });
+
+    for (const namespace of config.namespaces) {
+      await fs.writeFile(path.join(argv.out, `${namespace.name}.ts`), await generateNamespace(namespace), 'utf-8');
+      console.log(`   - Generated types for ${namespace.name}`);
+    }
+    await fs.writeFile(path.join(argv.out, 'index.ts'), generateIndex(config), 'utf-8');
+    console.log(`Successfully generated types for ${config.namespaces.length} namespace(s) in ${argv.out}`);
+  } catch (error) {
+    console.error('\nAn error occurred while generating types:', (error as Error).message);
+    process.exit(1);
+  }
+}
+
+run();
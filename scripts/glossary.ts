@@ -0,0 +1,128 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { languageSubtag } from './locales';
+import { ValidationProblem } from './validation';
+
+// --- GLOSSARY ---
+//
+// source/glossary.json holds brand names that must never be translated and
+// multilingual term rows, e.g.
+//   { "doNotTranslate": ["Tuborg"], "terms": [{ "tr": ["rulo", "rulosu"], "en": "film roll" }] }
+// A row maps every listed source form to the target language's term. Forms are
+// matched as whole words, so list the inflections you want enforced.
+
+export interface GlossaryConfig {
+  doNotTranslate: string[];
+  terms: { [language: string]: string | string[] }[];
+}
+
+export interface GlossaryTerm {
+  source: string;
+  target: string;
+}
+
+/** The glossary rules that apply to one source → target language pair. */
+export interface LanguageGlossary {
+  doNotTranslate: string[];
+  terms: GlossaryTerm[];
+}
+
+/**
+ * Loads the glossary from the source/glossary.json file.
+ * Returns an empty glossary if the file doesn't exist or can't be parsed.
+ */
+export async function loadGlossary(): Promise<GlossaryConfig> {
+  const glossaryPath = path.resolve(__dirname, '../source/glossary.json');
+  try {
+    const content = JSON.parse(await fs.readFile(glossaryPath, 'utf-8'));
+    return { doNotTranslate: content.doNotTranslate || [], terms: content.terms || [] };
+  } catch (error) {
+    return { doNotTranslate: [], terms: [] };
+  }
+}
+
+export function resolveGlossary(config: GlossaryConfig, sourceLang: string, targetLang: string): LanguageGlossary {
+  const terms: GlossaryTerm[] = [];
+  for (const row of config.terms) {
+    // Variants use the terms of their language unless they list their own (`pt-BR` → `pt`).
+    const sourceForms = row[sourceLang] ?? row[languageSubtag(sourceLang)];
+    const target = row[targetLang] ?? row[languageSubtag(targetLang)];
+    if (!sourceForms || typeof target !== 'string') continue;
+    for (const source of Array.isArray(sourceForms) ? sourceForms : [sourceForms]) {
+      terms.push({ source, target });
+    }
+  }
+  return { doNotTranslate: config.doNotTranslate, terms };
+}
+
+export function isGlossaryEmpty(glossary: LanguageGlossary): boolean {
+  return glossary.doNotTranslate.length === 0 && glossary.terms.length === 0;
+}
+
+function wholeWordRegex(term: string, flags: string): RegExp {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`, flags);
+}
+
+function matchCase(sourceOccurrence: string, target: string, targetLang: string): string {
+  const first = sourceOccurrence[0];
+  const isCapitalized = first !== first.toLocaleLowerCase() && first === first.toLocaleUpperCase();
+  return isCapitalized ? target[0].toLocaleUpperCase(targetLang) + target.slice(1) : target;
+}
+
+/**
+ * Replaces do-not-translate tokens (and, unless the provider applies the glossary
+ * natively, glossary terms) with the same markers `extractPlaceholders` uses.
+ * New markers are added to `placeholderMap`, so `restorePlaceholders` puts back the
+ * original token or the target term.
+ */
+export function protectGlossaryTerms(
+  textWithMarkers: string,
+  placeholderMap: Map<string, string>,
+  glossary: LanguageGlossary,
+  options: { includeTerms: boolean; targetLang: string }
+): string {
+  const rules = [
+    ...glossary.doNotTranslate.map(token => ({ source: token, target: null as string | null, flags: 'gu' })),
+    ...(options.includeTerms ? glossary.terms.map(term => ({ ...term, flags: 'giu' })) : []),
+  ].sort((a, b) => b.source.length - a.source.length); // Longest first, so "Pro Üyelik" wins over "Pro"
+
+  let result = textWithMarkers;
+  for (const rule of rules) {
+    result = result.replace(wholeWordRegex(rule.source, rule.flags), occurrence => {
+      const marker = `XPLACEHOLDERX${placeholderMap.size}XPLACEHOLDERX`;
+      placeholderMap.set(marker, rule.target === null ? occurrence : matchCase(occurrence, rule.target, options.targetLang));
+      return ` ${marker} `;
+    });
+  }
+  return result;
+}
+
+/**
+ * Reports glossary rules a translation breaks. These are warnings: the translation
+ * is still published, but shows up in the validation report.
+ */
+export function checkGlossary(sourceText: string, translation: string, glossary: LanguageGlossary): ValidationProblem[] {
+  const problems: ValidationProblem[] = [];
+
+  for (const token of glossary.doNotTranslate) {
+    const expected = (sourceText.match(wholeWordRegex(token, 'gu')) || []).length;
+    const actual = (translation.match(wholeWordRegex(token, 'gu')) || []).length;
+    if (actual < expected) {
+      problems.push({ rule: 'glossary', severity: 'warning', message: `Do-not-translate term '${token}' is missing` });
+    }
+  }
+
+  const lowerTranslation = translation.toLocaleLowerCase();
+  for (const term of glossary.terms) {
+    if (wholeWordRegex(term.source, 'iu').test(sourceText) && !lowerTranslation.includes(term.target.toLocaleLowerCase())) {
+      problems.push({
+        rule: 'glossary',
+        severity: 'warning',
+        message: `Glossary term '${term.source}' should be translated as '${term.target}'`,
+      });
+    }
+  }
+
+  return problems;
+}
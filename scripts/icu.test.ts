@@ -0,0 +1,88 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { expandIcuForTranslation, hasIcuSyntax, parseIcuMessage, serializeIcuMessage } from './icu';
+
+const HOURS = '{count, plural, one {# saat} other {# saat}}';
+
+/** Expands `text` for `targetLang`, "translates" every unit with `translate` and reassembles it. */
+function roundTrip(text: string, targetLang: string, translate: (unit: string) => string | null = unit => unit) {
+  const { units, assemble } = expandIcuForTranslation([{ key: 'key', text }], targetLang);
+  return { units: units.map(unit => unit.text), result: assemble(units.map(unit => translate(unit.text)))[0] };
+}
+
+describe('hasIcuSyntax', () => {
+  it('detects plural, selectordinal and select arguments but not plain placeholders', () => {
+    assert.equal(hasIcuSyntax(HOURS), true);
+    assert.equal(hasIcuSyntax('{n, selectordinal, one {#.} other {#.}}'), true);
+    assert.equal(hasIcuSyntax('{gender, select, other {Onlar}}'), true);
+    assert.equal(hasIcuSyntax('Merhaba {name}, {{count}} mesaj'), false);
+  });
+});
+
+describe('parseIcuMessage', () => {
+  it('serializes back to an equivalent message', () => {
+    const message = 'Merhaba {name}, {count, plural, offset:1 =0 {kimse yok} other {# kişi}}';
+    assert.equal(serializeIcuMessage(parseIcuMessage(message)), message);
+  });
+
+  it('rejects arguments without an other branch', () => {
+    assert.throws(() => parseIcuMessage('{count, plural, one {# saat}}'), /missing the required 'other' branch/);
+  });
+});
+
+describe('expandIcuForTranslation', () => {
+  it('passes texts without ICU arguments through as one unit', () => {
+    assert.deepEqual(roundTrip('Merhaba {name}', 'en'), { units: ['Merhaba {name}'], result: 'Merhaba {name}' });
+  });
+
+  it('emits the CLDR plural categories of the target language, with a sample number for #', () => {
+    assert.deepEqual(roundTrip(HOURS, 'en').units, ['1 saat', '2 saat']);
+    assert.deepEqual(roundTrip(HOURS, 'ja').units, ['1 saat']);
+    // ru `other` is only reached by fractions, so it keeps a count marker instead of a sample.
+    assert.deepEqual(roundTrip(HOURS, 'ru').units, ['1 saat', '2 saat', '5 saat', '{__icu_count__} saat']);
+    assert.deepEqual(roundTrip(HOURS, 'ar').units, ['0 saat', '1 saat', '2 saat', '3 saat', '11 saat', '100 saat']);
+  });
+
+  it('reassembles the branches with # back in place of the sample number', () => {
+    const { result } = roundTrip(HOURS, 'ru', unit => unit.replace('saat', 'час'));
+    assert.equal(result, '{count, plural, one {# час} few {# час} many {# час} other {# час}}');
+  });
+
+  it('uses ordinal categories for selectordinal', () => {
+    const { units, result } = roundTrip('{n, selectordinal, one {#. sıra} other {#. sıra}}', 'en', unit => unit.replace('. sıra', 'th place'));
+    assert.deepEqual(units, ['1. sıra', '2. sıra', '3. sıra', '4. sıra']);
+    assert.equal(result, '{n, selectordinal, one {#th place} two {#th place} few {#th place} other {#th place}}');
+  });
+
+  it('keeps =0 and =1 exact matches, substituting the offset value for #', () => {
+    const { units, result } = roundTrip(
+      '{count, plural, offset:1 =0 {Kimse yok} =1 {Yalnızca sen} one {Sen ve # kişi} other {Sen ve # kişi}}',
+      'en',
+      unit => unit.replace('Kimse yok', 'Nobody').replace('Yalnızca sen', 'Just you').replace(/Sen ve (\d+) kişi/, 'You and $1 others')
+    );
+    assert.deepEqual(units, ['Kimse yok', 'Yalnızca sen', 'Sen ve 1 kişi', 'Sen ve 2 kişi']);
+    assert.equal(result, '{count, plural, offset:1 =0 {Nobody} =1 {Just you} one {You and # others} other {You and # others}}');
+  });
+
+  it('expands plurals nested in a select branch and keeps the select keys', () => {
+    const message = '{gender, select, female {{count, plural, one {O # rulo çekti} other {O # rulo çekti}}} other {Onlar çekti}}';
+    const { units, result } = roundTrip(message, 'en', unit =>
+      unit === 'Onlar çekti' ? 'They took some' : unit.replace(/^O (\d+) rulo çekti$/, 'She took $1 rolls')
+    );
+    assert.deepEqual(units, ['O 1 rulo çekti', 'O 2 rulo çekti', 'Onlar çekti']);
+    assert.equal(result, '{gender, select, female {{count, plural, one {She took # rolls} other {She took # rolls}}} other {They took some}}');
+  });
+
+  it('keeps the whitespace around branch text that providers trim', () => {
+    assert.equal(roundTrip('{count, plural, other { # saat }}', 'ja').result, '{count, plural, other { # saat }}');
+  });
+
+  it('returns null when a branch has no translation', () => {
+    assert.equal(roundTrip(HOURS, 'en', unit => (unit.startsWith('2') ? null : unit)).result, null);
+  });
+
+  it('translates messages it cannot parse as plain text', () => {
+    const invalid = '{count, plural, one {# saat}}';
+    assert.deepEqual(roundTrip(invalid, 'en'), { units: [invalid], result: invalid });
+  });
+});
@@ -0,0 +1,323 @@
+import { TextToTranslate } from './providers';
+
+// --- ICU MESSAGEFORMAT SUPPORT ---
+//
+// Source strings may use ICU `plural`, `selectordinal` and `select` arguments, e.g.
+//   "{count, plural, one {# saat} other {# saat}}"
+// Only the literal branch contents are sent to the providers. Plural branches are
+// regenerated per target language using the CLDR categories that language needs.
+// Apostrophe quoting is not supported: braces in branch text are always syntax.
+
+type IcuArgumentType = 'plural' | 'selectordinal' | 'select';
+
+interface IcuText {
+  type: 'text';
+  value: string;
+}
+
+interface IcuArgument {
+  type: IcuArgumentType;
+  name: string;
+  offset: number;
+  branches: { key: string; nodes: IcuNode[] }[];
+}
+
+export type IcuNode = IcuText | IcuArgument;
+
+const ICU_ARGUMENT_REGEX = /\{\s*\w+\s*,\s*(plural|selectordinal|select)\s*,/;
+const COUNT_PLACEHOLDER = '{__icu_count__}';
+const CLDR_CATEGORY_ORDER = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+/**
+ * Whether the text contains at least one ICU plural/select argument.
+ * Plain `{var}` / `{{var}}` placeholders do not count.
+ */
+export function hasIcuSyntax(text: string): boolean {
+  return ICU_ARGUMENT_REGEX.test(text);
+}
+
+// --- PARSER ---
+
+class IcuParser {
+  private pos = 0;
+
+  constructor(private readonly input: string) {}
+
+  parse(): IcuNode[] {
+    const nodes = this.parseNodes();
+    if (this.pos < this.input.length) {
+      throw this.error(`Unexpected '${this.input[this.pos]}'`);
+    }
+    return nodes;
+  }
+
+  /** Parses text and arguments until an unmatched `}` or the end of input. */
+  private parseNodes(): IcuNode[] {
+    const nodes: IcuNode[] = [];
+    let text = '';
+
+    while (this.pos < this.input.length) {
+      const char = this.input[this.pos];
+      if (char === '}') break;
+
+      if (char === '{') {
+        const simple = this.input.slice(this.pos).match(/^\{\{?\s*\w+\s*\}?\}/);
+        if (simple) {
+          // Plain interpolation ({var} or {{var}}) stays part of the text.
+          text += simple[0];
+          this.pos += simple[0].length;
+          continue;
+        }
+        if (text) nodes.push({ type: 'text', value: text });
+        text = '';
+        nodes.push(this.parseArgument());
+        continue;
+      }
+
+      text += char;
+      this.pos++;
+    }
+
+    if (text) nodes.push({ type: 'text', value: text });
+    return nodes;
+  }
+
+  private parseArgument(): IcuArgument {
+    this.expect('{');
+    const name = this.readWord('argument name');
+    this.expect(',');
+    const type = this.readWord('argument type');
+    if (type !== 'plural' && type !== 'selectordinal' && type !== 'select') {
+      throw this.error(`Unsupported argument type '${type}'`);
+    }
+    this.expect(',');
+
+    let offset = 0;
+    this.skipWhitespace();
+    const offsetMatch = this.input.slice(this.pos).match(/^offset\s*:\s*(\d+)/);
+    if (offsetMatch) {
+      offset = Number(offsetMatch[1]);
+      this.pos += offsetMatch[0].length;
+    }
+
+    const branches: IcuArgument['branches'] = [];
+    this.skipWhitespace();
+    while (this.input[this.pos] !== '}') {
+      if (this.pos >= this.input.length) throw this.error('Unterminated argument');
+      const key = this.readBranchKey();
+      this.expect('{');
+      const nodes = this.parseNodes();
+      this.expect('}');
+      branches.push({ key, nodes });
+      this.skipWhitespace();
+    }
+    this.expect('}');
+
+    if (!branches.some(branch => branch.key === 'other')) {
+      throw this.error(`Argument '${name}' is missing the required 'other' branch`);
+    }
+    return { type, name, offset, branches };
+  }
+
+  private readWord(what: string): string {
+    this.skipWhitespace();
+    const match = this.input.slice(this.pos).match(/^\w+/);
+    if (!match) throw this.error(`Expected ${what}`);
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private readBranchKey(): string {
+    this.skipWhitespace();
+    const match = this.input.slice(this.pos).match(/^=?\w+/);
+    if (!match) throw this.error('Expected branch key');
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private expect(char: string): void {
+    this.skipWhitespace();
+    if (this.input[this.pos] !== char) throw this.error(`Expected '${char}'`);
+    this.pos++;
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.input.length && /\s/.test(this.input[this.pos])) this.pos++;
+  }
+
+  private error(message: string): Error {
+    return new Error(`Invalid ICU message at position ${this.pos}: ${message}`);
+  }
+}
+
+export function parseIcuMessage(message: string): IcuNode[] {
+  return new IcuParser(message).parse();
+}
+
+export function serializeIcuMessage(nodes: IcuNode[]): string {
+  return nodes.map(node => {
+    if (node.type === 'text') return node.value;
+    const offset = node.offset ? ` offset:${node.offset}` : '';
+    const branches = node.branches.map(branch => `${branch.key} {${serializeIcuMessage(branch.nodes)}}`).join(' ');
+    return `{${node.name}, ${node.type},${offset} ${branches}}`;
+  }).join('');
+}
+
+// --- CLDR PLURAL CATEGORIES ---
+
+/**
+ * Returns the CLDR plural categories a language needs, with a representative
+ * integer for each category where one exists (e.g. ru: one → 1, few → 2, many → 5).
+ * Categories reached only by fractions (ru `other`) have no sample.
+ */
+function getPluralCategories(lang: string, type: 'cardinal' | 'ordinal'): Map<string, number | null> {
+  const rules = new Intl.PluralRules(lang, { type });
+  const samples = new Map<string, number | null>(
+    rules.resolvedOptions().pluralCategories.map(category => [category, null])
+  );
+  for (let n = 1; n <= 100; n++) {
+    const category = rules.select(n);
+    if (samples.get(category) === null) samples.set(category, n);
+  }
+  const zeroCategory = rules.select(0);
+  if (samples.get(zeroCategory) === null) samples.set(zeroCategory, 0);
+
+  // Emit branches in the canonical CLDR order, which ends with the required `other`.
+  return new Map(CLDR_CATEGORY_ORDER.filter(category => samples.has(category)).map(category => [category, samples.get(category)!]));
+}
+
+// --- TRANSLATION PLANNING ---
+
+interface PendingUnit {
+  text: string;
+  /** Whitespace around the text node; providers trim it, so it is re-applied after translation. */
+  leading: string;
+  trailing: string;
+  /** Sample number substituted for `#`, swapped back after translation. */
+  sample: number | null;
+}
+
+/**
+ * Rebuilds the argument tree for a target language, replacing every text node with
+ * a reference to a translation unit. Plural branches are re-keyed to the target's categories.
+ */
+function planNodes(
+  nodes: IcuNode[],
+  targetLang: string,
+  units: PendingUnit[],
+  sample: number | null,
+  inPlural: boolean
+): IcuNode[] {
+  return nodes.map(node => {
+    if (node.type === 'text') {
+      if (node.value.trim().length === 0) return node;
+      const [, leading, content, trailing] = node.value.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+      let text = content;
+      if (inPlural) {
+        text = sample !== null ? text.replace(/#/g, String(sample)) : text.replace(/#/g, COUNT_PLACEHOLDER);
+      }
+      units.push({ text, leading, trailing, sample: inPlural && content.includes('#') ? sample : null });
+      return { type: 'text', value: `\u0000${units.length - 1}\u0000` };
+    }
+
+    if (node.type === 'select') {
+      return {
+        ...node,
+        branches: node.branches.map(branch => ({
+          key: branch.key,
+          nodes: planNodes(branch.nodes, targetLang, units, sample, inPlural),
+        })),
+      };
+    }
+
+    const sourceBranches = new Map(node.branches.map(branch => [branch.key, branch.nodes]));
+    const exactBranches = node.branches
+      .filter(branch => branch.key.startsWith('='))
+      .map(branch => ({
+        key: branch.key,
+        nodes: planNodes(branch.nodes, targetLang, units, Number(branch.key.slice(1)) - node.offset, true),
+      }));
+    const categories = getPluralCategories(targetLang, node.type === 'plural' ? 'cardinal' : 'ordinal');
+    const categoryBranches = [...categories].map(([category, categorySample]) => ({
+      key: category,
+      nodes: planNodes(
+        sourceBranches.get(category) ?? sourceBranches.get('other')!,
+        targetLang,
+        units,
+        categorySample,
+        true
+      ),
+    }));
+    return { ...node, branches: [...exactBranches, ...categoryBranches] };
+  });
+}
+
+/**
+ * Replaces the sample number inserted for `#` with `#` again, accepting the
+ * locale-specific digits a provider may have produced (e.g. Arabic-Indic).
+ */
+function restoreCountMarker(translated: string, unit: PendingUnit, targetLang: string, key: string): string {
+  let result = translated.split(COUNT_PLACEHOLDER).join('#');
+  if (unit.sample === null) return result;
+
+  const candidates = new Set([String(unit.sample), unit.sample.toLocaleString(targetLang)]);
+  for (const candidate of candidates) {
+    const escaped = candidate.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const regex = new RegExp(`(?<![\\d\\u0660-\\u0669])${escaped}(?![\\d\\u0660-\\u0669])`);
+    if (regex.test(result)) return result.replace(regex, '#');
+  }
+  console.warn(`   - ICU: Could not locate the plural count in the ${targetLang.toUpperCase()} translation of '${key}'. Kept it verbatim.`);
+  return result;
+}
+
+/**
+ * Expands source texts into the units a provider should translate. ICU messages are
+ * split into one unit per literal branch for the target language; other texts pass through.
+ * `assemble` takes the translated units (same order) and returns one string per input text,
+ * or null for texts with a missing unit.
+ */
+export function expandIcuForTranslation(texts: TextToTranslate[], targetLang: string): {
+  units: TextToTranslate[];
+  assemble: (translations: (string | null)[]) => (string | null)[];
+} {
+  const units: TextToTranslate[] = [];
+  const assemblers: ((translations: (string | null)[]) => string | null)[] = [];
+
+  for (const { key, text, maxLength, context } of texts) {
+    let plannedNodes: IcuNode[] | null = null;
+    const pending: PendingUnit[] = [];
+    if (hasIcuSyntax(text)) {
+      try {
+        plannedNodes = planNodes(parseIcuMessage(text), targetLang, pending, null, false);
+      } catch (error) {
+        console.warn(`   - ICU: '${key}' could not be parsed (${(error as Error).message}). Translating it as plain text.`);
+        pending.length = 0;
+      }
+    }
+
+    const start = units.length;
+    if (!plannedNodes) {
+      units.push({ key, text, maxLength, context });
+      assemblers.push(translations => translations[start]);
+      continue;
+    }
+
+    const nodes = plannedNodes;
+    // Each branch is displayed on its own, so the key's length limit applies per branch.
+    pending.forEach((unit, index) => units.push({ key: `${key}#${index}`, text: unit.text, maxLength, context }));
+    assemblers.push(translations => {
+      // A message is only usable when every one of its branches was translated.
+      if (pending.some((_, index) => translations[start + index] === null)) return null;
+      const restored = pending.map((unit, index) =>
+        unit.leading + restoreCountMarker(translations[start + index]!, unit, targetLang, key) + unit.trailing
+      );
+      // Unit references are only ever whole text nodes, so a plain string swap is safe.
+      return serializeIcuMessage(nodes).replace(/\u0000(\d+)\u0000/g, (_, index) => restored[Number(index)]);
+    });
+  }
+
+  return {
+    units,
+    assemble: translations => assemblers.map(assembleOne => assembleOne(translations)),
+  };
+}
@@ -0,0 +1,219 @@
+import fs from 'fs/promises';
+import path from 'path';
+import yargs from 'yargs/yargs';
+import { hideBin } from 'yargs/helpers';
+import dotenv from 'dotenv';
+import { detectSourceLanguage, LoadedConfig, loadConfig } from './config';
+import { flattenObject, isTranslationEntry, unflattenObject } from './entries';
+import {
+  isStaleOverride,
+  loadMachineTranslations,
+  loadOverrides,
+  MachineTranslations,
+  OverrideConfig,
+  overrideText,
+  writeOverrides,
+} from './overrides';
+
+dotenv.config();
+
+// --- TRANSLATIONS LINT ---
+//
+// Finds override entries and cached translations that no longer do anything:
+// overrides for unknown namespaces, languages or keys, overrides identical to the
+// machine translation, and cached keys that were removed from the source.
+// `--fix` prunes them. Stale overrides (source text changed since they were written)
+// are reported but kept, since they need a new translation rather than removal.
+
+type LintRule = 'unknown-namespace' | 'unknown-language' | 'missing-key' | 'redundant-override' | 'stale-override' | 'orphaned-cache-key';
+
+interface LintIssue {
+  rule: LintRule;
+  namespace: string;
+  language?: string;
+  key?: string;
+  message: string;
+}
+
+interface NamespaceSource {
+  sourceLanguage: string;
+  languages: string[];
+  flatSource: { [key: string]: any };
+}
+
+async function loadSources(config: LoadedConfig): Promise<Map<string, NamespaceSource>> {
+  const sources = new Map<string, NamespaceSource>();
+  for (const namespace of config.namespaces) {
+    sources.set(namespace.name, {
+      sourceLanguage: namespace.sourceLanguage ?? detectSourceLanguage(namespace.source, config),
+      languages: namespace.languages ?? config.languages,
+      flatSource: flattenObject(JSON.parse(await fs.readFile(namespace.source, 'utf-8'))),
+    });
+  }
+  return sources;
+}
+
+async function readCacheFile(cacheDir: string, namespace: string, lang: string): Promise<{ [key: string]: any } | null> {
+  try {
+    return flattenObject(JSON.parse(await fs.readFile(path.resolve(cacheDir, namespace, `${lang}.json`), 'utf-8')));
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * The translation an override replaces: the source text for the base language,
+ * otherwise the machine translation published next to the file (if any).
+ */
+function machineTranslationFor(source: NamespaceSource, lang: string, key: string, machineTranslations: MachineTranslations): string | undefined {
+  if (lang === source.sourceLanguage) return source.flatSource[key];
+  return machineTranslations[key]?.translation;
+}
+
+async function lintOverrides(
+  overrides: OverrideConfig,
+  sources: Map<string, NamespaceSource>,
+  cacheDir: string | undefined
+): Promise<LintIssue[]> {
+  const issues: LintIssue[] = [];
+
+  for (const [namespace, languages] of Object.entries(overrides)) {
+    const source = sources.get(namespace);
+    if (!source) {
+      issues.push({ rule: 'unknown-namespace', namespace, message: `Overrides for unknown namespace '${namespace}'` });
+      continue;
+    }
+
+    for (const [lang, entries] of Object.entries(languages)) {
+      if (!source.languages.includes(lang)) {
+        issues.push({ rule: 'unknown-language', namespace, language: lang, message: `Overrides for language '${lang}', which ${namespace} does not target` });
+        continue;
+      }
+
+      const cached = cacheDir ? await readCacheFile(cacheDir, namespace, lang) : null;
+      const machineTranslations = await loadMachineTranslations(cacheDir, namespace, lang, cached ?? {});
+      for (const [key, override] of Object.entries(entries)) {
+        if (typeof source.flatSource[key] !== 'string') {
+          issues.push({ rule: 'missing-key', namespace, language: lang, key, message: `Override for '${key}', which is not in the source` });
+        } else if (isStaleOverride(override, source.flatSource[key])) {
+          issues.push({ rule: 'stale-override', namespace, language: lang, key, message: `Override for '${key}' was written for an older source text` });
+        } else if (machineTranslationFor(source, lang, key, machineTranslations) === overrideText(override)) {
+          issues.push({ rule: 'redundant-override', namespace, language: lang, key, message: `Override for '${key}' matches the machine translation` });
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+async function lintCache(sources: Map<string, NamespaceSource>, cacheDir: string): Promise<LintIssue[]> {
+  const issues: LintIssue[] = [];
+  for (const [namespace, source] of sources) {
+    for (const lang of source.languages) {
+      const cached = await readCacheFile(cacheDir, namespace, lang);
+      if (!cached) continue;
+      for (const key of Object.keys(cached)) {
+        if (source.flatSource[key] === undefined) {
+          issues.push({ rule: 'orphaned-cache-key', namespace, language: lang, key, message: `Cached key '${key}' is no longer in the source` });
+        }
+      }
+    }
+  }
+  return issues;
+}
+
+/** Removes the flagged entries, dropping language and namespace objects left empty. */
+function pruneOverrides(overrides: OverrideConfig, issues: LintIssue[]): OverrideConfig {
+  const pruned: OverrideConfig = JSON.parse(JSON.stringify(overrides));
+  for (const issue of issues) {
+    if (issue.rule === 'unknown-namespace') {
+      delete pruned[issue.namespace];
+    } else if (issue.rule === 'unknown-language') {
+      delete pruned[issue.namespace]?.[issue.language!];
+    } else if (issue.rule === 'missing-key' || issue.rule === 'redundant-override') {
+      delete pruned[issue.namespace]?.[issue.language!]?.[issue.key!];
+    }
+  }
+  for (const [namespace, languages] of Object.entries(pruned)) {
+    for (const [lang, entries] of Object.entries(languages)) {
+      if (Object.keys(entries).length === 0) delete languages[lang];
+    }
+    if (Object.keys(languages).length === 0) delete pruned[namespace];
+  }
+  return pruned;
+}
+
+async function pruneCache(cacheDir: string, issues: LintIssue[]): Promise<void> {
+  const files = new Map<string, Set<string>>();
+  for (const issue of issues) {
+    if (issue.rule !== 'orphaned-cache-key') continue;
+    const filePath = path.resolve(cacheDir, issue.namespace, `${issue.language}.json`);
+    if (!files.has(filePath)) files.set(filePath, new Set());
+    files.get(filePath)!.add(issue.key!);
+  }
+  for (const [filePath, orphanedKeys] of files) {
+    const flat = flattenObject(JSON.parse(await fs.readFile(filePath, 'utf-8')));
+    orphanedKeys.forEach(key => delete flat[key]);
+    await fs.writeFile(filePath, JSON.stringify(unflattenObject(flat), null, 2), 'utf-8');
+  }
+}
+
+async function run() {
+  const argv = await yargs(hideBin(process.argv))
+    .option('config', { alias: 'c', type: 'string', description: 'Path to translations.config.(json|ts). Defaults to the repository root.' })
+    .option('cache-dir', {
+      type: 'string',
+      default: process.env.TRANSLATION_CACHE_DIR,
+      description: 'Previously published translations (e.g., ./dist-cache). Needed for cache and redundant-override checks.',
+    })
+    .option('fix', { type: 'boolean', default: false, description: 'Prune the reported entries from the overrides file and the cache.' })
+    .help().argv;
+
+  try {
+    const config = await loadConfig(argv.config);
+    const sources = await loadSources(config);
+    const overrides = await loadOverrides();
+    const cacheDir = argv.cacheDir;
+
+    if (!cacheDir) {
+      console.log('   - Cache Dir: Not provided. Redundant overrides are only checked for base languages, cached keys are not checked.');
+    }
+
+    const issues = [
+      ...await lintOverrides(overrides, sources, cacheDir),
+      ...(cacheDir ? await lintCache(sources, cacheDir) : []),
+    ];
+
+    if (issues.length === 0) {
+      console.log('No orphaned overrides or cached keys found.');
+      return;
+    }
+
+    for (const issue of issues) {
+      const location = [issue.namespace, issue.language].filter(Boolean).join('/');
+      console.log(`   - [${issue.rule}] ${location}: ${issue.message}`);
+    }
+    console.log(`\nFound ${issues.length} issue(s).`);
+
+    if (!argv.fix) {
+      console.log('Run with --fix to prune them.');
+      process.exit(1);
+    }
+
+    const overrideIssues = issues.filter(issue => issue.rule !== 'orphaned-cache-key');
+    if (overrideIssues.length > 0) {
+      await writeOverrides(pruneOverrides(overrides, overrideIssues));
+      console.log(`Pruned ${overrideIssues.length} override issue(s) from source/translation-overrides.json`);
+    }
+    if (cacheDir && overrideIssues.length < issues.length) {
+      await pruneCache(cacheDir, issues);
+      console.log(`Pruned ${issues.length - overrideIssues.length} orphaned key(s) from ${cacheDir}`);
+    }
+  } catch (error) {
+    console.error('\nAn error occurred while linting translations:', (error as Error).message);
+    process.exit(1);
+  }
+}
+
+run();
@@ -0,0 +1,38 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { isPseudoLocale, localeFallbackChain, normalizeLocale } from './locales';
+
+describe('normalizeLocale', () => {
+  it('writes tags in their canonical casing with hyphens', () => {
+    assert.equal(normalizeLocale('pt_br'), 'pt-BR');
+    assert.equal(normalizeLocale('PT-br'), 'pt-BR');
+    assert.equal(normalizeLocale('zh_hant_tw'), 'zh-Hant-TW');
+    assert.equal(normalizeLocale('DE'), 'de');
+  });
+});
+
+describe('localeFallbackChain', () => {
+  const available = ['pt', 'pt-BR', 'zh', 'zh-Hant', 'zh-Hant-TW', 'en', 'en-XA'];
+
+  it('falls back through the shorter forms of the locale, nearest first', () => {
+    assert.deepEqual(localeFallbackChain('pt-BR', available), ['pt']);
+    assert.deepEqual(localeFallbackChain('zh-Hant-TW', available), ['zh-Hant', 'zh']);
+    assert.deepEqual(localeFallbackChain('pt', available), []);
+  });
+
+  it('only keeps locales that are available', () => {
+    assert.deepEqual(localeFallbackChain('zh-Hant-TW', ['zh', 'zh-Hant-TW']), ['zh']);
+    assert.deepEqual(localeFallbackChain('fr-CA', available), []);
+  });
+
+  it('uses the configured chain instead of the derived one', () => {
+    assert.deepEqual(localeFallbackChain('pt-BR', available, { 'pt-BR': ['en'] }), ['en']);
+    assert.deepEqual(localeFallbackChain('zh-Hant-TW', available, { 'zh-Hant-TW': [] }), []);
+    assert.deepEqual(localeFallbackChain('pt-BR', available, { 'pt-BR': ['pt-BR', 'es', 'pt'] }), ['pt']);
+  });
+
+  it('gives pseudo-locales no fallback', () => {
+    assert.equal(isPseudoLocale('en-XA'), true);
+    assert.deepEqual(localeFallbackChain('en-XA', available), []);
+  });
+});
@@ -0,0 +1,58 @@
+import { normalizeLocale } from '../src/locales';
+
+// --- LOCALES ---
+//
+// Languages are BCP-47 tags (`de`, `pt-BR`, `zh-Hant`), written in their canonical casing,
+// which is also the file name under each namespace. A regional or script variant falls
+// back to its parent (`pt-BR` → `pt`), so a variant file only holds the keys that differ.
+
+export { normalizeLocale };
+
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[a-z]{4})?(-([a-z]{2}|\d{3}))?$/i;
+
+export function isLocale(code: string): boolean {
+  return LOCALE_PATTERN.test(code.trim().replace(/_/g, '-'));
+}
+
+/** `pt-BR` → `pt`. */
+export function languageSubtag(locale: string): string {
+  return locale.split(/[-_]/)[0].toLowerCase();
+}
+
+/**
+ * Pseudo-locales (`qps`, `qps-ploc`, `en-XA`): built by the `pseudo` provider without any API,
+ * for testing text expansion and strings that skipped the translation system.
+ */
+export function isPseudoLocale(locale: string): boolean {
+  const [language, ...subtags] = locale.toLowerCase().split(/[-_]/);
+  return language === 'qps' || subtags.includes('xa');
+}
+
+/**
+ * Locales `locale` falls back to, nearest first: `zh-Hant-TW` → `zh-Hant`, `zh`. An entry
+ * in `fallbacks` (from the config) replaces the derived chain. Only `available` locales
+ * are kept, since only those have files.
+ */
+export function localeFallbackChain(
+  locale: string,
+  available: string[],
+  fallbacks: { [locale: string]: string[] } = {}
+): string[] {
+  const subtags = locale.split('-');
+  // A pseudo-locale is complete on its own; falling back would hide untranslated strings.
+  const derived = isPseudoLocale(locale) ? [] : subtags.slice(1).map((_, index) => subtags.slice(0, subtags.length - 1 - index).join('-'));
+  return (fallbacks[locale] ?? derived).filter(candidate => candidate !== locale && available.includes(candidate));
+}
+
+/**
+ * Looks a locale up in a provider's code table, trying the locale and then its shorter
+ * forms (`zh-Hant-TW`, `zh-Hant`, `zh`). Table keys are lower-case.
+ */
+export function resolveLocaleCode(codes: { [locale: string]: string }, locale: string): string | undefined {
+  const subtags = locale.toLowerCase().split(/[-_]/);
+  for (let length = subtags.length; length > 0; length--) {
+    const code = codes[subtags.slice(0, length).join('-')];
+    if (code !== undefined) return code;
+  }
+  return undefined;
+}
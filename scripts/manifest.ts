@@ -0,0 +1,148 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash } from 'crypto';
+import { detectSourceLanguage, LoadedConfig, resolveFallbackChain } from './config';
+import { flattenObject, isTranslationEntry, md5 } from './entries';
+import { writeFileAtomic } from './staging';
+
+// --- BUILD MANIFEST ---
+//
+// dist/manifest.json describes every published file so clients can download only
+// what changed and coverage is visible at a glance.
+
+export interface ManifestFile {
+  /** SHA-256 of the file content. */
+  hash: string;
+  bytes: number;
+  /** Number of translated strings in the file, including those a variant inherits. */
+  keys: number;
+  /** Source strings with no entry in the file. */
+  missing: number;
+  /** Entries whose sourceHash no longer matches the source text. */
+  stale: number;
+}
+
+export interface ManifestNamespace {
+  sourceLanguage: string;
+  /** Number of strings in the source file. */
+  keys: number;
+  languages: { [language: string]: ManifestFile };
+}
+
+export interface BuildManifest {
+  /** Changes whenever any published file changes. */
+  version: string;
+  /** Commit the files were built from, when known (GITHUB_SHA in CI). */
+  commit?: string;
+  generatedAt: string;
+  namespaces: { [namespace: string]: ManifestNamespace };
+}
+
+function sha256(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+async function readEntries(filePath: string): Promise<{ [key: string]: any }> {
+  try {
+    return flattenObject(JSON.parse(await fs.readFile(filePath, 'utf-8')));
+  } catch (error) {
+    return {};
+  }
+}
+
+/**
+ * `inherited` holds the entries of the file's fallback chain, so variant files (which
+ * only contain the keys that differ) are counted as complete.
+ */
+async function describeFile(
+  filePath: string,
+  sourceStrings: { [key: string]: string },
+  inherited: { [key: string]: any } = {}
+): Promise<ManifestFile> {
+  const content = await fs.readFile(filePath);
+  const entries = { ...inherited, ...flattenObject(JSON.parse(content.toString('utf-8'))) };
+
+  let keys = 0;
+  let missing = 0;
+  let stale = 0;
+  for (const [key, sourceText] of Object.entries(sourceStrings)) {
+    const entry = entries[key];
+    if (entry === undefined) {
+      missing++;
+      continue;
+    }
+    keys++;
+    if (isTranslationEntry(entry) && entry.sourceHash !== md5(sourceText)) stale++;
+  }
+
+  return { hash: sha256(content), bytes: content.length, keys, missing, stale };
+}
+
+/**
+ * Builds the manifest from the files currently in the output directory, for every
+ * configured namespace (not only the ones translated in this run).
+ */
+export async function buildManifest(config: LoadedConfig): Promise<BuildManifest> {
+  const namespaces: BuildManifest['namespaces'] = {};
+
+  for (const namespace of config.namespaces) {
+    const flatSource = flattenObject(JSON.parse(await fs.readFile(namespace.source, 'utf-8')));
+    const sourceStrings: { [key: string]: string } = {};
+    for (const [key, value] of Object.entries(flatSource)) {
+      if (typeof value === 'string') sourceStrings[key] = value;
+    }
+
+    const languages: ManifestNamespace['languages'] = {};
+    for (const lang of namespace.languages ?? config.languages) {
+      const filePath = path.join(config.outputDir, namespace.name, `${lang}.json`);
+      const inherited: { [key: string]: any } = {};
+      for (const parent of resolveFallbackChain(lang, namespace, config).reverse()) {
+        Object.assign(inherited, await readEntries(path.join(config.outputDir, namespace.name, `${parent}.json`)));
+      }
+      try {
+        languages[lang] = await describeFile(filePath, sourceStrings, inherited);
+      } catch (error) {
+        // Language not built (yet) - leave it out of the manifest
+      }
+    }
+
+    namespaces[namespace.name] = {
+      sourceLanguage: namespace.sourceLanguage ?? detectSourceLanguage(namespace.source, config),
+      keys: Object.keys(sourceStrings).length,
+      languages,
+    };
+  }
+
+  const fileHashes = Object.entries(namespaces)
+    .flatMap(([name, ns]) => Object.entries(ns.languages).map(([lang, file]) => `${name}/${lang}:${file.hash}`))
+    .sort();
+
+  return {
+    version: sha256(fileHashes.join('\n')).slice(0, 16),
+    commit: process.env.GITHUB_SHA,
+    generatedAt: new Date().toISOString(),
+    namespaces,
+  };
+}
+
+export async function writeManifest(config: LoadedConfig): Promise<BuildManifest> {
+  const manifest = await buildManifest(config);
+  await fs.mkdir(config.outputDir, { recursive: true });
+  await writeFileAtomic(path.join(config.outputDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+  return manifest;
+}
+
+/**
+ * One line per namespace, e.g. `photo-app: 13 language(s), 98.5% translated, 3 stale`.
+ */
+export function describeCoverage(manifest: BuildManifest): string[] {
+  return Object.entries(manifest.namespaces).map(([name, ns]) => {
+    const files = Object.values(ns.languages);
+    if (files.length === 0) return `${name}: not built`;
+    const expected = ns.keys * files.length;
+    const translated = files.reduce((total, file) => total + file.keys, 0);
+    const stale = files.reduce((total, file) => total + file.stale, 0);
+    const coverage = expected === 0 ? 100 : (translated / expected) * 100;
+    return `${name}: ${files.length} language(s), ${coverage.toFixed(1)}% translated, ${stale} stale`;
+  });
+}
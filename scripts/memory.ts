@@ -0,0 +1,93 @@
+import fs from 'fs/promises';
+import path from 'path';
+import yargs from 'yargs/yargs';
+import { hideBin } from 'yargs/helpers';
+import dotenv from 'dotenv';
+import { detectSourceLanguage, LoadedConfig, loadConfig } from './config';
+import { exportTmx, importTmx, loadTranslationMemory, MemorySeedSource } from './translation-memory';
+
+// Quiet, so `export` without --out prints nothing but the TMX document.
+dotenv.config({ quiet: true });
+
+// --- TRANSLATION MEMORY COMMAND ---
+//
+//   npm run memory -- seed --cache-dir ./dist-cache
+//   npm run memory -- export --out memory.tmx [--source tr] [--target en]
+//   npm run memory -- import reviewed.tmx
+
+function seedSources(config: LoadedConfig): MemorySeedSource[] {
+  return config.namespaces.map(ns => ({
+    namespace: ns.name,
+    sourcePath: ns.source,
+    sourceLanguage: ns.sourceLanguage ?? detectSourceLanguage(ns.source, config),
+    languages: ns.languages ?? config.languages,
+  }));
+}
+
+async function openMemory(configPath: string | undefined) {
+  const config = await loadConfig(configPath);
+  if (!config.memory) throw new Error('The translation memory is disabled in the config (memory: false).');
+  return { config, memoryPath: config.memory, memory: await loadTranslationMemory(config.memory) };
+}
+
+async function run() {
+  try {
+    await yargs(hideBin(process.argv))
+      .option('config', { alias: 'c', type: 'string', description: 'Path to translations.config.(json|ts). Defaults to the repository root.' })
+      .command(
+        'seed',
+        'Add the published translations from the cache directory to the memory',
+        args => args.option('cache-dir', {
+          type: 'string',
+          default: process.env.TRANSLATION_CACHE_DIR,
+          demandOption: 'Set --cache-dir or TRANSLATION_CACHE_DIR.',
+          description: 'Previously published translations (e.g., ./dist-cache)',
+        }),
+        async argv => {
+          const { config, memoryPath, memory } = await openMemory(argv.config);
+          const seeded = await memory.seedFromCache(argv.cacheDir!, seedSources(config));
+          await memory.save(memoryPath);
+          console.log(`Seeded ${seeded} translation(s). ${memory.size()} entries in ${memoryPath}`);
+        }
+      )
+      .command(
+        'export',
+        'Write the memory as TMX 1.4',
+        args => args
+          .option('out', { alias: 'o', type: 'string', description: 'Output file. Prints to stdout when omitted.' })
+          .option('source', { type: 'string', description: 'Only export this source language' })
+          .option('target', { type: 'string', description: 'Only export this target language' }),
+        async argv => {
+          const { memory } = await openMemory(argv.config);
+          const tmx = exportTmx(memory, { sourceLang: argv.source, targetLang: argv.target });
+          if (!argv.out) {
+            process.stdout.write(tmx);
+            return;
+          }
+          await fs.mkdir(path.dirname(path.resolve(argv.out)), { recursive: true });
+          await fs.writeFile(argv.out, tmx, 'utf-8');
+          console.log(`Exported the translation memory to ${argv.out}`);
+        }
+      )
+      .command(
+        'import <file>',
+        'Merge the units of a TMX file into the memory',
+        args => args.positional('file', { type: 'string', demandOption: true, description: 'TMX file to import' }),
+        async argv => {
+          const { memoryPath, memory } = await openMemory(argv.config);
+          const imported = importTmx(memory, await fs.readFile(argv.file, 'utf-8'));
+          await memory.save(memoryPath);
+          console.log(`Imported ${imported} translation(s). ${memory.size()} entries in ${memoryPath}`);
+        }
+      )
+      .demandCommand(1, 'Specify a command: seed, export or import.')
+      .strict()
+      .help()
+      .parseAsync();
+  } catch (error) {
+    console.error('\nAn error occurred while updating the translation memory:', (error as Error).message);
+    process.exit(1);
+  }
+}
+
+run();
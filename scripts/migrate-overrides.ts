@@ -0,0 +1,64 @@
+import fs from 'fs/promises';
+import yargs from 'yargs/yargs';
+import { hideBin } from 'yargs/helpers';
+import dotenv from 'dotenv';
+import { loadConfig } from './config';
+import { flattenObject, md5 } from './entries';
+import { loadOverrides, OverrideConfig, writeOverrides } from './overrides';
+
+dotenv.config();
+
+// --- OVERRIDES MIGRATION ---
+//
+// Converts plain string overrides into `{ translation, sourceHash }` entries, hashing the
+// source text as it is now. From then on the build can tell when the source changes under
+// an override. Overrides for unknown namespaces or keys are left as they are (see `lint`).
+
+async function migrateOverrides(overrides: OverrideConfig, configPath: string | undefined): Promise<{ migrated: number; skipped: string[] }> {
+  const config = await loadConfig(configPath);
+  const skipped: string[] = [];
+  let migrated = 0;
+
+  for (const [namespaceName, languages] of Object.entries(overrides)) {
+    const namespace = config.namespaces.find(ns => ns.name === namespaceName);
+    const flatSource = namespace ? flattenObject(JSON.parse(await fs.readFile(namespace.source, 'utf-8'))) : {};
+
+    for (const [lang, entries] of Object.entries(languages)) {
+      for (const [key, override] of Object.entries(entries)) {
+        if (typeof override !== 'string') continue;
+        const sourceText = flatSource[key];
+        if (typeof sourceText !== 'string') {
+          skipped.push(`${namespaceName}/${lang}/${key}`);
+          continue;
+        }
+        entries[key] = { translation: override, sourceHash: md5(sourceText) };
+        migrated++;
+      }
+    }
+  }
+
+  return { migrated, skipped };
+}
+
+async function run() {
+  const argv = await yargs(hideBin(process.argv))
+    .option('config', { alias: 'c', type: 'string', description: 'Path to translations.config.(json|ts). Defaults to the repository root.' })
+    .help().argv;
+
+  try {
+    const overrides = await loadOverrides();
+    const { migrated, skipped } = await migrateOverrides(overrides, argv.config);
+
+    if (migrated > 0) await writeOverrides(overrides);
+    console.log(`Added source hashes to ${migrated} override(s) in source/translation-overrides.json`);
+    if (skipped.length > 0) {
+      console.warn(`Skipped ${skipped.length} override(s) whose key is not in the source (run \`npm run lint\`):`);
+      skipped.forEach(location => console.warn(`   - ${location}`));
+    }
+  } catch (error) {
+    console.error('\nAn error occurred while migrating overrides:', (error as Error).message);
+    process.exit(1);
+  }
+}
+
+run();
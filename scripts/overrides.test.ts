@@ -0,0 +1,104 @@
+import assert from 'assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { md5 } from './entries';
+import {
+  applyOverrides,
+  isStaleOverride,
+  loadMachineTranslations,
+  MACHINE_TRANSLATIONS_SUFFIX,
+  OverrideConfig,
+  restoreMachineTranslations,
+} from './overrides';
+
+const source = { title: 'Giriş', button: 'Devam Et', limit: 3 };
+const entry = (translation: string, sourceText: string) => ({ translation, sourceHash: md5(sourceText) });
+
+const machine = () => ({ title: entry('Anmelden', source.title), button: entry('Weiter', source.button), limit: 3 });
+
+describe('isStaleOverride', () => {
+  it('compares the hash the override was written for with the current source text', () => {
+    assert.equal(isStaleOverride(entry('Einloggen', source.title), source.title), false);
+    assert.equal(isStaleOverride(entry('Einloggen', 'Eski giriş'), source.title), true);
+  });
+
+  it('never treats plain string overrides as stale', () => {
+    assert.equal(isStaleOverride('Einloggen', source.title), false);
+  });
+});
+
+describe('applyOverrides', () => {
+  it('applies overrides written for the current source text', () => {
+    const translations = machine();
+    const overrides: OverrideConfig = { login: { de: { title: entry('Einloggen', source.title), button: 'Fortfahren' } } };
+    const result = applyOverrides(translations, overrides, 'login', 'de', source);
+
+    assert.equal(result.applied, 2);
+    assert.deepEqual(result.stale, []);
+    assert.deepEqual(result.machineTranslations, { title: entry('Anmelden', source.title), button: entry('Weiter', source.button) });
+    assert.deepEqual(translations.title, entry('Einloggen', source.title));
+    assert.deepEqual(translations.button, entry('Fortfahren', source.button));
+  });
+
+  it('skips and reports overrides written for an older source text', () => {
+    const translations = machine();
+    const overrides: OverrideConfig = { login: { de: { title: entry('Einloggen', 'Eski giriş') } } };
+    const result = applyOverrides(translations, overrides, 'login', 'de', source);
+
+    assert.equal(result.applied, 0);
+    assert.deepEqual(result.stale, ['title']);
+    assert.deepEqual(translations.title, entry('Anmelden', source.title));
+  });
+
+  it('ignores overrides of other languages, of keys not in the translations and of non-string values', () => {
+    const translations = machine();
+    const overrides: OverrideConfig = { login: { fr: { title: 'Connexion' }, de: { removed: 'Alt', limit: '5' } } };
+    const result = applyOverrides(translations, overrides, 'login', 'de', source);
+
+    assert.equal(result.applied, 0);
+    assert.deepEqual(translations, machine());
+  });
+});
+
+describe('<lang>.machine.json round trip', () => {
+  let dir: string;
+  let published: { [key: string]: any };
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'overrides-test-'));
+    await fs.mkdir(path.join(dir, 'login'));
+    // What a build publishes: the overridden file and, next to it, the entries it replaced.
+    published = machine();
+    const result = applyOverrides(published, { login: { de: { title: entry('Einloggen', source.title) } } }, 'login', 'de', source);
+    await fs.writeFile(path.join(dir, 'login', `de${MACHINE_TRANSLATIONS_SUFFIX}`), JSON.stringify(result.machineTranslations), 'utf-8');
+  });
+
+  after(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('reads back the machine translations the overrides replaced', async () => {
+    assert.deepEqual(await loadMachineTranslations(dir, 'login', 'de', published), { title: entry('Anmelden', source.title) });
+    assert.deepEqual(await loadMachineTranslations(dir, 'login', 'fr'), {});
+    assert.deepEqual(await loadMachineTranslations(undefined, 'login', 'de'), {});
+  });
+
+  it('puts the machine translations back, so a removed override no longer sticks', async () => {
+    const restored = restoreMachineTranslations(published, await loadMachineTranslations(dir, 'login', 'de', published));
+    assert.deepEqual(restored, machine());
+  });
+
+  it('keeps the published entry when the source changed since the override was applied', () => {
+    const republished = { ...published, title: entry('Einloggen', 'Yeni giriş') };
+    const restored = restoreMachineTranslations(republished, { title: entry('Anmelden', source.title) });
+    assert.deepEqual(restored.title, entry('Einloggen', 'Yeni giriş'));
+  });
+
+  it('reads the inline machineTranslation of files published by older builds', async () => {
+    const legacy = { title: { ...entry('Einloggen', source.title), machineTranslation: 'Anmelden' }, limit: 3 };
+    const machineTranslations = await loadMachineTranslations(undefined, 'login', 'de', legacy);
+    assert.deepEqual(machineTranslations, { title: entry('Anmelden', source.title) });
+    // Restored entries no longer carry the inline field.
+    assert.deepEqual(restoreMachineTranslations(legacy, {}), { title: entry('Einloggen', source.title), limit: 3 });
+  });
+});
@@ -0,0 +1,173 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { isTranslationEntry, md5, TranslationEntry } from './entries';
+
+// --- OVERRIDE SYSTEM ---
+
+/**
+ * An override together with the md5 of the source text it was written for. Plain strings
+ * (the original format) carry no hash and are applied regardless of source changes;
+ * `npm run migrate:overrides` converts them.
+ */
+export interface OverrideEntry {
+  translation: string;
+  sourceHash: string;
+}
+
+export type OverrideValue = string | OverrideEntry;
+
+export interface OverrideConfig {
+  [namespace: string]: {
+    [language: string]: {
+      [key: string]: OverrideValue;
+    };
+  };
+}
+
+export function overrideText(value: OverrideValue): string {
+  return typeof value === 'string' ? value : value.translation;
+}
+
+/** True when the override was written for a different source text than `sourceText`. */
+export function isStaleOverride(value: OverrideValue, sourceText: string): boolean {
+  return typeof value !== 'string' && value.sourceHash !== md5(sourceText);
+}
+
+export const OVERRIDES_PATH = path.resolve(__dirname, '../source/translation-overrides.json');
+
+/**
+ * Loads translation overrides from the source/translation-overrides.json file.
+ * Returns an empty object if the file doesn't exist or can't be parsed.
+ */
+export async function loadOverrides(): Promise<OverrideConfig> {
+  try {
+    const content = await fs.readFile(OVERRIDES_PATH, 'utf-8');
+    return JSON.parse(content);
+  } catch (error) {
+    // File doesn't exist or can't be parsed - that's okay, just return empty config
+    return {};
+  }
+}
+
+/**
+ * Writes the overrides file back with the indentation and trailing newline it already
+ * has, so pruning entries produces a minimal diff.
+ */
+export async function writeOverrides(overrides: OverrideConfig): Promise<void> {
+  let indent = '    ';
+  let trailingNewline = false;
+  try {
+    const current = await fs.readFile(OVERRIDES_PATH, 'utf-8');
+    indent = current.match(/^([ \t]+)"/m)?.[1] ?? indent;
+    trailingNewline = current.endsWith('\n');
+  } catch (error) {
+    // New file - use the defaults
+  }
+  await fs.writeFile(OVERRIDES_PATH, JSON.stringify(overrides, null, indent) + (trailingNewline ? '\n' : ''), 'utf-8');
+}
+
+/**
+ * Provider output that overrides replaced, by key. Kept next to the published file as
+ * `<lang>.machine.json` rather than in it: apps never download it, while the next build
+ * reads it back from the cache so removed overrides fall back to it, and `lint` and
+ * `review` compare overrides with it.
+ */
+export type MachineTranslations = { [key: string]: TranslationEntry };
+
+export const MACHINE_TRANSLATIONS_SUFFIX = '.machine.json';
+
+/**
+ * Reads `<dir>/<namespace>/<lang>.machine.json`. Files published by older builds kept the
+ * machine translation inline as `machineTranslation`; pass their entries as `published`
+ * to pick those up too. Returns an empty object when there is nothing to read.
+ */
+export async function loadMachineTranslations(
+  dir: string | undefined,
+  namespace: string,
+  lang: string,
+  published: { [key: string]: any } = {}
+): Promise<MachineTranslations> {
+  const machineTranslations: MachineTranslations = {};
+  for (const [key, value] of Object.entries(published)) {
+    if (isTranslationEntry(value) && value.machineTranslation !== undefined) {
+      machineTranslations[key] = { translation: value.machineTranslation, sourceHash: value.sourceHash };
+    }
+  }
+  if (!dir) return machineTranslations;
+  try {
+    const content = await fs.readFile(path.resolve(dir, namespace, `${lang}${MACHINE_TRANSLATIONS_SUFFIX}`), 'utf-8');
+    return { ...machineTranslations, ...JSON.parse(content) };
+  } catch (error) {
+    return machineTranslations; // No override was applied, or the language was not published yet
+  }
+}
+
+export interface OverrideResult {
+  applied: number;
+  /** Keys whose override was written for an older source text. These are not applied. */
+  stale: string[];
+  /** The entries the applied overrides replaced, for the `<lang>.machine.json` sidecar. */
+  machineTranslations: MachineTranslations;
+}
+
+/**
+ * Applies overrides to the final translations for a specific namespace and language.
+ * The replaced entries are returned as `machineTranslations`, so removing an override
+ * brings them back and `lint` can spot overrides that change nothing.
+ */
+export function applyOverrides(
+  translations: { [key: string]: TranslationEntry | any },
+  overrides: OverrideConfig,
+  namespace: string,
+  language: string,
+  sourceTexts: { [key: string]: any }
+): OverrideResult {
+  const result: OverrideResult = { applied: 0, stale: [], machineTranslations: {} };
+  const namespaceOverrides = overrides[namespace];
+  if (!namespaceOverrides) return result;
+
+  const langOverrides = namespaceOverrides[language];
+  if (!langOverrides) return result;
+
+  for (const [key, override] of Object.entries(langOverrides)) {
+    const current = translations[key];
+    if (current !== undefined) {
+      const sourceText = sourceTexts[key];
+      if (typeof sourceText === 'string') {
+        if (isStaleOverride(override, sourceText)) {
+          result.stale.push(key);
+          continue;
+        }
+        // Apply override and recalculate hash based on the SOURCE text (not the override)
+        const sourceHash = md5(sourceText);
+        result.machineTranslations[key] = { translation: isTranslationEntry(current) ? current.translation : sourceText, sourceHash };
+        translations[key] = { translation: overrideText(override), sourceHash };
+        result.applied++;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Puts the machine translations back for entries that were overridden in a previous run,
+ * so overrides that were removed since then no longer stick. Call before `applyOverrides`.
+ */
+export function restoreMachineTranslations(
+  translations: { [key: string]: TranslationEntry | any },
+  machineTranslations: MachineTranslations
+): { [key: string]: TranslationEntry | any } {
+  const restored: { [key: string]: TranslationEntry | any } = {};
+  for (const [key, value] of Object.entries(translations)) {
+    if (!isTranslationEntry(value)) {
+      restored[key] = value;
+      continue;
+    }
+    const machine = machineTranslations[key];
+    restored[key] = machine?.sourceHash === value.sourceHash
+      ? { translation: machine.translation, sourceHash: machine.sourceHash }
+      : { translation: value.translation, sourceHash: value.sourceHash };
+  }
+  return restored;
+}
@@ -0,0 +1,63 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { chunkBatch, planRequests } from './batching';
+import { createMockProvider } from './mock';
+import { TextToTranslate, TranslationProvider } from './types';
+
+const texts = (...values: string[]): TextToTranslate[] => values.map((text, index) => ({ key: `key${index}`, text }));
+
+describe('chunkBatch', () => {
+  it('sends everything in one request without limits', () => {
+    assert.deepEqual(chunkBatch(['a', 'b', 'c'], undefined), [[0, 1, 2]]);
+    assert.deepEqual(chunkBatch([], undefined), []);
+  });
+
+  it('starts a new chunk once maxTexts is reached', () => {
+    assert.deepEqual(chunkBatch(['a', 'b', 'c', 'd', 'e'], { maxTexts: 2 }), [[0, 1], [2, 3], [4]]);
+  });
+
+  it('starts a new chunk before the UTF-8 size would go over maxBytes', () => {
+    // 'ş' and 'ı' take two bytes each: 'aşı' is 5 bytes.
+    assert.deepEqual(chunkBatch(['aşı', 'aşı', 'ab', 'abc'], { maxTexts: 10, maxBytes: 10 }), [[0, 1], [2, 3]]);
+    assert.deepEqual(chunkBatch(['aşı', 'aşı', 'a'], { maxTexts: 10, maxBytes: 10 }), [[0, 1], [2]]);
+  });
+
+  it('gives a text larger than maxBytes a chunk of its own', () => {
+    assert.deepEqual(chunkBatch(['ab', 'x'.repeat(20), 'cd'], { maxTexts: 10, maxBytes: 10 }), [[0], [1], [2]]);
+  });
+});
+
+describe('planRequests', () => {
+  const provider = (overrides: Partial<TranslationProvider>): TranslationProvider => ({ ...createMockProvider(), ...overrides });
+
+  it('splits texts by requestGroup in order of first appearance, keeping their indexes', () => {
+    const grouped = provider({ requestGroup: context => context?.description ?? '' });
+    const batch: TextToTranslate[] = [
+      { key: 'a', text: 'a', context: { description: 'button' } },
+      { key: 'b', text: 'b' },
+      { key: 'c', text: 'c', context: { description: 'button' } },
+      { key: 'd', text: 'd' },
+      { key: 'e', text: 'e', context: { description: 'title' } },
+    ];
+    assert.deepEqual(planRequests(grouped, batch, batch.map(item => item.text)), [[0, 2], [1, 3], [4]]);
+  });
+
+  it('chunks each group by the provider limits', () => {
+    const limited = provider({ batchLimits: { maxTexts: 2 }, requestGroup: context => context?.type ?? '' });
+    const batch: TextToTranslate[] = ['a', 'b', 'c', 'd'].map((text, index) => ({
+      key: text,
+      text,
+      context: index === 1 ? { type: 'button' } : undefined,
+    }));
+    assert.deepEqual(planRequests(limited, batch, batch.map(item => item.text)), [[0, 2], [3], [1]]);
+  });
+
+  it('sizes chunks on the payload as sent, not on the source text', () => {
+    const limited = provider({ batchLimits: { maxTexts: 10, maxBytes: 40 } });
+    const batch = texts('{{a}} {{b}}', '{{c}} {{d}}');
+    // Both source texts fit in 40 bytes together; with markers each payload text is 55 bytes.
+    const payload = ['XPLACEHOLDERX0XPLACEHOLDERX XPLACEHOLDERX1XPLACEHOLDERX', 'XPLACEHOLDERX0XPLACEHOLDERX XPLACEHOLDERX1XPLACEHOLDERX'];
+    assert.deepEqual(planRequests(limited, batch, batch.map(item => item.text)), [[0, 1]]);
+    assert.deepEqual(planRequests(limited, batch, payload), [[0], [1]]);
+  });
+});
@@ -0,0 +1,106 @@
+import { createLimiter, Limiter } from '../concurrency';
+import { BatchLimits, ProviderErrorKind, TextToTranslate, TranslationProvider } from './types';
+
+// --- REQUEST BATCHING & RETRIES ---
+
+export interface RequestOptions {
+  /** Requests in flight per provider, across every namespace translated in the run. */
+  concurrency: number;
+  /** Retries of a failed request before its texts fall back to the next provider. */
+  retries: number;
+  /** First retry delay; doubled on every further attempt. */
+  backoffMs: number;
+  /** Longer waits (e.g. a large `Retry-After`) give up and fall back instead. */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_REQUEST_OPTIONS: RequestOptions = {
+  concurrency: 2,
+  retries: 3,
+  backoffMs: 1000,
+  maxDelayMs: 60000,
+};
+
+const RETRYABLE_ERRORS = new Set<ProviderErrorKind>(['rate-limit', 'network', 'server']);
+
+/**
+ * Splits a batch into chunks of consecutive indexes that respect the provider's
+ * request limits. A single text larger than `maxBytes` still gets its own chunk.
+ */
+export function chunkBatch(texts: string[], limits: BatchLimits | undefined): number[][] {
+  if (!limits) return texts.length > 0 ? [texts.map((_, index) => index)] : [];
+
+  const chunks: number[][] = [];
+  let current: number[] = [];
+  let currentBytes = 0;
+  texts.forEach((text, index) => {
+    const bytes = Buffer.byteLength(text, 'utf-8');
+    const full = current.length >= limits.maxTexts ||
+      (limits.maxBytes !== undefined && current.length > 0 && currentBytes + bytes > limits.maxBytes);
+    if (full) {
+      chunks.push(current);
+      current = [];
+      currentBytes = 0;
+    }
+    current.push(index);
+    currentBytes += bytes;
+  });
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Splits a batch into the requests a provider gets: texts are grouped by the provider's
+ * `requestGroup` (in order of first appearance), then each group is chunked by its limits.
+ * Chunks are sized on `payload`, the texts as sent: placeholder and glossary markers make
+ * them longer than the source.
+ */
+export function planRequests(provider: TranslationProvider, texts: TextToTranslate[], payload: string[]): number[][] {
+  const groups = new Map<string, number[]>();
+  texts.forEach(({ context }, index) => {
+    const group = provider.requestGroup?.(context) ?? '';
+    if (!groups.has(group)) groups.set(group, []);
+    groups.get(group)!.push(index);
+  });
+  return [...groups.values()].flatMap(group =>
+    chunkBatch(group.map(index => payload[index]), provider.batchLimits).map(chunk => chunk.map(index => group[index]))
+  );
+}
+
+/**
+ * Runs provider requests under a per-provider concurrency cap and retries rate
+ * limits, network and server errors with exponential backoff (or the provider's
+ * `Retry-After`). Create one per run so the cap holds across namespaces.
+ */
+export interface RequestScheduler {
+  run<T>(provider: TranslationProvider, request: () => Promise<T>): Promise<T>;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function createRequestScheduler(options: RequestOptions = DEFAULT_REQUEST_OPTIONS): RequestScheduler {
+  const limiters = new Map<string, Limiter>();
+
+  async function withRetry<T>(provider: TranslationProvider, request: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        const kind = provider.classifyError(error);
+        if (!RETRYABLE_ERRORS.has(kind) || attempt > options.retries) throw error;
+        const delay = provider.retryAfterMs?.(error) ?? options.backoffMs * 2 ** (attempt - 1);
+        if (delay > options.maxDelayMs) throw error;
+        console.warn(`   - ${provider.name} ${kind} error, retrying in ${(delay / 1000).toFixed(1)}s (${attempt}/${options.retries})`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  return {
+    run(provider, request) {
+      if (!limiters.has(provider.name)) limiters.set(provider.name, createLimiter(options.concurrency));
+      // Waiting for a retry keeps the slot, so a rate-limited provider is not hit harder.
+      return limiters.get(provider.name)!(() => withRetry(provider, request));
+    },
+  };
+}
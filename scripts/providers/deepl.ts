@@ -0,0 +1,155 @@
+import axios from 'axios';
+import { createHash } from 'crypto';
+import { KeyContext } from '../entries';
+import { GlossaryTerm } from '../glossary';
+import { languageSubtag, resolveLocaleCode } from '../locales';
+import { classifyHttpError, getRetryAfterMs } from './http';
+import { ProviderErrorKind, ProviderUsage, TranslationProvider } from './types';
+
+const DEEPL_API_BASE_FREE = 'https://api-free.deepl.com/v2';
+
+const DEEPL_SUPPORTED_TARGET_LANGS = new Set([
+  'bg', 'cs', 'da', 'de', 'el', 'en', 'es', 'et', 'fi', 'fr',
+  'hu', 'id', 'it', 'ja', 'ko', 'lt', 'lv', 'nb', 'nl', 'pl', 'pt',
+  'ro', 'ru', 'sk', 'sl', 'sv', 'tr', 'uk', 'zh',
+  'en-gb', 'en-us', 'pt-br', 'pt-pt', 'zh-hans', 'zh-hant'
+]);
+
+/** Target codes for locales DeepL translates into a specific variant. Others are sent as their language subtag. */
+const DEEPL_TARGET_CODES: { [locale: string]: string } = {
+  'en': 'EN-US',
+  'en-gb': 'EN-GB',
+  'en-us': 'EN-US',
+  'pt': 'PT-PT',
+  'pt-br': 'PT-BR',
+  'pt-pt': 'PT-PT',
+  'zh-hans': 'ZH-HANS',
+  'zh-cn': 'ZH-HANS',
+  'zh-hant': 'ZH-HANT',
+  'zh-tw': 'ZH-HANT',
+  'zh-hk': 'ZH-HANT',
+};
+
+/** Source languages have no variants at DeepL. */
+function toDeepLSource(locale: string): string {
+  return languageSubtag(locale).toUpperCase();
+}
+
+function toDeepLTarget(locale: string): string {
+  return resolveLocaleCode(DEEPL_TARGET_CODES, locale) ?? languageSubtag(locale).toUpperCase();
+}
+
+/** DeepL's `context` parameter: not translated, not billed, only steers the translation. */
+function toDeepLContext(context: KeyContext | undefined): string {
+  if (!context) return '';
+  return [
+    context.type && `UI element: ${context.type}.`,
+    context.description,
+    context.maxLength && `At most ${context.maxLength} characters.`,
+  ].filter(Boolean).join(' ');
+}
+
+/** `prefer_*` values fall back to the default for target languages without formality support. */
+function toDeepLFormality(context: KeyContext | undefined): string | undefined {
+  if (context?.formality === 'formal') return 'prefer_more';
+  if (context?.formality === 'informal') return 'prefer_less';
+  return undefined;
+}
+
+export function createDeepLProvider(apiKey: string | undefined): TranslationProvider {
+  const headers = {
+    'User-Agent': 'PhotoApp/1.0',
+    'Authorization': `DeepL-Auth-Key ${apiKey}`,
+  };
+  // glossary_id per "source:target" pair, resolved once per run (chunks of a batch share the lookup)
+  const glossaryIds = new Map<string, Promise<string | null>>();
+
+  /**
+   * Reuses a glossary with the same name (the name includes a hash of the entries)
+   * or creates one. DeepL glossaries are immutable, so changed entries get a new name.
+   */
+  async function ensureGlossary(sourceLang: string, targetLang: string, terms: GlossaryTerm[]): Promise<string> {
+    const entries = terms.map(term => `${term.source}\t${term.target}`).join('\n');
+    const name = `translations-source-${sourceLang}-${targetLang}-${createHash('md5').update(entries).digest('hex').slice(0, 8)}`;
+
+    const existing = await axios.get(`${DEEPL_API_BASE_FREE}/glossaries`, { headers, timeout: 30000 });
+    const match = existing.data.glossaries.find((glossary: any) => glossary.name === name && glossary.ready);
+    if (match) return match.glossary_id;
+
+    const created = await axios.post(`${DEEPL_API_BASE_FREE}/glossaries`, {
+      name,
+      source_lang: sourceLang,
+      target_lang: targetLang,
+      entries,
+      entries_format: 'tsv',
+    }, { headers, timeout: 30000 });
+    return created.data.glossary_id;
+  }
+
+  return {
+    name: 'deepl',
+    supportedTargetLanguages: DEEPL_SUPPORTED_TARGET_LANGS,
+    // 50 texts and 128 KiB per request. Form encoding can triple non-ASCII text, so stay well below.
+    batchLimits: { maxTexts: 50, maxBytes: 40 * 1024 },
+
+    isConfigured: () => Boolean(apiKey),
+
+    // Context and formality apply to a whole request.
+    requestGroup: context => `${toDeepLContext(context)}\u0000${toDeepLFormality(context) ?? ''}`,
+
+    async prepareGlossary(sourceLang: string, targetLang: string, terms: GlossaryTerm[]): Promise<boolean> {
+      const pair = `${sourceLang}:${targetLang}`.toLowerCase();
+      if (!glossaryIds.has(pair)) {
+        // Glossaries are defined per language, not per variant.
+        glossaryIds.set(pair, ensureGlossary(languageSubtag(sourceLang), languageSubtag(targetLang), terms).catch(() => {
+          // Unsupported language pair or glossary limit reached: fall back to marker protection.
+          console.warn(`   - DeepL glossary unavailable for ${pair.toUpperCase()}, protecting terms with markers instead.`);
+          return null;
+        }));
+      }
+      return (await glossaryIds.get(pair)) !== null;
+    },
+
+    async translateBatch(texts: string[], targetLang: string, sourceLang: string, contexts: (KeyContext | undefined)[] = []): Promise<string[]> {
+      const glossaryId = await glossaryIds.get(`${sourceLang}:${targetLang}`.toLowerCase());
+
+      // Texts arrive split by `requestGroup`, so the first text's context holds for all of them.
+      const context = toDeepLContext(contexts[0]);
+      const formality = toDeepLFormality(contexts[0]);
+      const formData = new URLSearchParams();
+      formData.append('source_lang', toDeepLSource(sourceLang));
+      formData.append('target_lang', toDeepLTarget(targetLang));
+      if (glossaryId) formData.append('glossary_id', glossaryId);
+      if (context) formData.append('context', context);
+      if (formality) formData.append('formality', formality);
+
+      texts.forEach(text => formData.append('text', text));
+
+      const response = await axios.post(`${DEEPL_API_BASE_FREE}/translate`, formData.toString(), {
+        headers: {
+          ...headers,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        timeout: 30000,
+      });
+      return response.data.translations.map((t: any) => t.text);
+    },
+
+    async getUsage(): Promise<ProviderUsage> {
+      const response = await axios.get(`${DEEPL_API_BASE_FREE}/usage`, { headers, timeout: 30000 });
+      // Pro accounts without a cost control limit report a very large character_limit.
+      return { characterCount: response.data.character_count, characterLimit: response.data.character_limit ?? null };
+    },
+
+    classifyError: (error: unknown): ProviderErrorKind => classifyHttpError(error),
+
+    retryAfterMs: getRetryAfterMs,
+
+    describeError(error: unknown): string {
+      if (axios.isAxiosError(error) && error.response) {
+        return `DeepL API Error: ${error.response.status} - ${JSON.stringify(error.response.data, null, 2)}`;
+      }
+      return `An unknown error occurred in DeepL: ${(error as Error)?.message ?? error}`;
+    },
+  };
+}
@@ -0,0 +1,62 @@
+import axios from 'axios';
+import { languageSubtag, resolveLocaleCode } from '../locales';
+import { classifyHttpError, getRetryAfterMs } from './http';
+import { ProviderErrorKind, TranslationProvider } from './types';
+
+const GOOGLE_API_URL = `https://translation.googleapis.com/language/translate/v2`;
+
+/**
+ * Google codes for locales. Google's `pt` is Brazilian Portuguese, so the bare `pt`
+ * is sent as `pt-PT` to match DeepL. Other locales are sent as their language subtag.
+ */
+const GOOGLE_LANGUAGE_CODES: { [locale: string]: string } = {
+  'pt': 'pt-PT',
+  'pt-br': 'pt',
+  'pt-pt': 'pt-PT',
+  'zh': 'zh-CN',
+  'zh-hans': 'zh-CN',
+  'zh-cn': 'zh-CN',
+  'zh-hant': 'zh-TW',
+  'zh-tw': 'zh-TW',
+  'zh-hk': 'zh-TW',
+};
+
+function toGoogleLanguage(locale: string): string {
+  return resolveLocaleCode(GOOGLE_LANGUAGE_CODES, locale) ?? languageSubtag(locale);
+}
+
+export function createGoogleProvider(apiKey: string | undefined): TranslationProvider {
+  return {
+    name: 'google',
+    // Google Cloud Translate covers every language the apps ship.
+    supportedTargetLanguages: null,
+    // 128 text segments per request; keep the payload well below the 204,800 byte limit.
+    batchLimits: { maxTexts: 128, maxBytes: 100 * 1024 },
+
+    isConfigured: () => Boolean(apiKey),
+
+    async translateBatch(texts: string[], targetLang: string, sourceLang: string): Promise<string[]> {
+      const response = await axios.post(`${GOOGLE_API_URL}?key=${apiKey}`, {
+        q: texts,
+        source: toGoogleLanguage(sourceLang),
+        target: toGoogleLanguage(targetLang),
+        format: 'text',
+      }, {
+        timeout: 30000,
+      });
+      return response.data.data.translations.map((t: any) => t.translatedText);
+    },
+
+    classifyError: (error: unknown): ProviderErrorKind => classifyHttpError(error),
+
+    retryAfterMs: getRetryAfterMs,
+
+    describeError(error: unknown): string {
+      if (axios.isAxiosError(error) && error.response) {
+        const errorMessage = error.response.data?.error?.message || JSON.stringify(error.response.data);
+        return `Google Translate API Error: ${error.response.status} - ${errorMessage}`;
+      }
+      return `An unknown error occurred in Google Translate: ${(error as Error)?.message ?? error}`;
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import axios from 'axios';
+import { ProviderErrorKind } from './types';
+
+/**
+ * Default error classification shared by the HTTP-based providers.
+ */
+export function classifyHttpError(error: unknown): ProviderErrorKind {
+  if (!axios.isAxiosError(error)) return 'unknown';
+  if (!error.response) return 'network';
+
+  switch (error.response.status) {
+    case 456:
+      return 'quota';
+    case 429:
+      return 'rate-limit';
+    case 401:
+    case 403:
+      return 'auth';
+    default:
+      return error.response.status >= 500 ? 'server' : 'unknown';
+  }
+}
+
+/**
+ * Reads the `Retry-After` header (seconds or an HTTP date) of a failed request.
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  if (!axios.isAxiosError(error) || !error.response) return undefined;
+  const header = error.response.headers?.['retry-after'];
+  if (header === undefined || header === null) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,226 @@
+import {
+  normalizeTranslationPunctuation,
+  preprocessTextsForTranslation,
+  restorePlaceholders,
+} from '../text-processing';
+import { checkGlossary, LanguageGlossary, protectGlossaryTerms } from '../glossary';
+import { validateTranslation, ValidationIssue } from '../validation';
+import { createRequestScheduler, planRequests, RequestScheduler } from './batching';
+import { TextToTranslate, TranslationProvider } from './types';
+import { ProviderRequest, UsageBlock, UsageTracker } from './usage';
+
+export * from './types';
+export * from './registry';
+export * from './batching';
+export * from './usage';
+
+/** A batch after placeholder and glossary protection: what is sent, and how to read the answer. */
+interface PreparedBatch {
+  payload: string[];
+  /** Restores placeholders and normalizes punctuation in the provider's output. */
+  finish(translated: string[]): string[];
+}
+
+async function prepareBatch(
+  provider: TranslationProvider,
+  texts: TextToTranslate[],
+  targetLang: string,
+  sourceLang: string,
+  glossary?: LanguageGlossary
+): Promise<PreparedBatch> {
+  let { processedTexts, placeholderMaps } = preprocessTextsForTranslation(texts);
+  if (glossary) {
+    const nativeGlossary = glossary.terms.length > 0 && provider.prepareGlossary
+      ? await provider.prepareGlossary(sourceLang, targetLang, glossary.terms)
+      : false;
+    processedTexts = processedTexts.map((text, index) =>
+      protectGlossaryTerms(text, placeholderMaps[index], glossary, { includeTerms: !nativeGlossary, targetLang })
+    );
+  }
+  return {
+    payload: processedTexts,
+    finish: translatedTexts => translatedTexts.map((text, index) => {
+      const restored = restorePlaceholders(text, placeholderMaps[index], targetLang);
+      return normalizeTranslationPunctuation(texts[index].text, restored, targetLang);
+    }),
+  };
+}
+
+/**
+ * Runs a single provider over a batch: placeholder and glossary protection, the raw
+ * API call, then placeholder restoration and punctuation normalization.
+ */
+export async function translateWithProvider(
+  provider: TranslationProvider,
+  texts: TextToTranslate[],
+  targetLang: string,
+  sourceLang: string,
+  glossary?: LanguageGlossary
+): Promise<string[]> {
+  const batch = await prepareBatch(provider, texts, targetLang, sourceLang, glossary);
+  return batch.finish(await provider.translateBatch(batch.payload, targetLang, sourceLang, texts.map(text => text.context)));
+}
+
+export interface FallbackResult {
+  /** One entry per input text; null when no provider produced a valid translation. */
+  translations: (string | null)[];
+  /** Name of the provider that produced each accepted translation. */
+  providers: (string | null)[];
+  issues: ValidationIssue[];
+  /** Every request made (or skipped), in the order they were sent. */
+  requests: ProviderRequest[];
+}
+
+export interface FallbackOptions {
+  glossary?: LanguageGlossary;
+  /** Shared request scheduler. A private one with default options is used when omitted. */
+  scheduler?: RequestScheduler;
+  /** Shared usage tracker enforcing character budgets. No budgets apply when omitted. */
+  usage?: UsageTracker;
+}
+
+/**
+ * Walks the fallback chain. Texts are sent in chunks that respect each provider's
+ * request limits; every result is checked by the validation gate and only the texts
+ * that failed (or whose chunk errored after retries) are sent to the next provider.
+ * Glossary violations are reported as warnings on the accepted translation. Chunks that
+ * would go over a provider's character budget, or go to a provider out of quota, are not
+ * sent and fall back like failed ones. Returns null when no provider was usable for the language.
+ */
+export async function translateWithFallback(
+  chain: TranslationProvider[],
+  texts: TextToTranslate[],
+  targetLang: string,
+  sourceLang: string,
+  options: FallbackOptions = {}
+): Promise<FallbackResult | null> {
+  const { glossary, usage } = options;
+  const scheduler = options.scheduler ?? createRequestScheduler();
+  const usable = chain.filter(provider => provider.isConfigured());
+  if (usable.length === 0) {
+    const tried = chain.map(provider => provider.name).join(', ') || 'none';
+    console.warn(`   - SKIPPING ${targetLang.toUpperCase()}: No provider with an API key is available for this language (candidates: ${tried}).`);
+    return null;
+  }
+
+  const result: FallbackResult = {
+    translations: texts.map(() => null),
+    providers: texts.map(() => null),
+    issues: [],
+    requests: [],
+  };
+  let pending = texts.map((_, index) => index);
+
+  for (const [index, provider] of usable.entries()) {
+    if (pending.length === 0) break;
+    const pendingTexts = pending.map(i => texts[i]);
+    const { payload } = await prepareBatch(provider, pendingTexts, targetLang, sourceLang, glossary);
+    const chunks = planRequests(provider, pendingTexts, payload).map(chunk => chunk.map(i => pending[i]));
+    console.log(
+      `   - Using ${index === 0 ? 'primary' : 'fallback'} service: ${provider.name} (${pending.length} string(s)` +
+      (chunks.length > 1 ? ` in ${chunks.length} requests)` : ')')
+    );
+
+    const outcomes = await Promise.all(chunks.map(async chunk => {
+      const chunkTexts = chunk.map(i => texts[i]);
+      const sent = { characters: 0, attempts: 0 };
+      // Every attempt reserves what it sends, so retries count against the budget too.
+      const attempt = async (): Promise<string[] | UsageBlock> => {
+        const batch = await prepareBatch(provider, chunkTexts, targetLang, sourceLang, glossary);
+        sent.characters = batch.payload.reduce((total, text) => total + text.length, 0);
+        const blocked = await usage?.reserve(provider, sent.characters);
+        if (blocked) return blocked;
+        sent.attempts++;
+        return batch.finish(await provider.translateBatch(batch.payload, targetLang, sourceLang, chunkTexts.map(text => text.context)));
+      };
+      try {
+        const answer = await scheduler.run(provider, attempt);
+        return typeof answer === 'string'
+          ? { chunk, ...sent, translated: null, error: null, blocked: answer }
+          : { chunk, ...sent, translated: answer, error: null, blocked: null };
+      } catch (error) {
+        return { chunk, ...sent, translated: null, error, blocked: null };
+      }
+    }));
+
+    const rejected: number[] = [];
+    const failed: number[] = [];
+    const skipped: number[] = [];
+    for (const outcome of outcomes) {
+      const error = outcome.blocked ?? (outcome.translated ? undefined : provider.classifyError(outcome.error));
+      const request: ProviderRequest = {
+        provider: provider.name,
+        sourceLanguage: sourceLang,
+        targetLanguage: targetLang,
+        fallback: index > 0,
+        texts: outcome.chunk.length,
+        characters: outcome.characters,
+        attempts: outcome.attempts,
+        accepted: 0,
+        // A retry can be blocked too, once earlier attempts failed.
+        outcome: outcome.translated ? 'translated' : outcome.blocked && outcome.attempts === 0 ? 'skipped' : 'failed',
+        ...(error ? { error } : {}),
+      };
+      result.requests.push(request);
+      if (outcome.blocked) {
+        skipped.push(...outcome.chunk);
+        continue;
+      }
+      if (!outcome.translated) {
+        if (error === 'quota' || error === 'rate-limit') {
+          console.warn(`   - ${provider.name} ${error === 'quota' ? 'quota exceeded' : 'rate limited'}. Will attempt fallback.`);
+        } else {
+          console.error(`   - ${provider.describeError(outcome.error)}`);
+        }
+        // An exhausted account stays exhausted, so the rest of the run skips the provider.
+        if (error === 'quota') usage?.exhaust(provider);
+        failed.push(...outcome.chunk);
+        continue;
+      }
+
+      const { chunk, translated } = outcome;
+      chunk.forEach((textIndex, batchIndex) => {
+        const { key, text, maxLength } = texts[textIndex];
+        const problems = validateTranslation(text, translated[batchIndex], maxLength);
+        if (problems.length === 0) {
+          request.accepted++;
+          result.translations[textIndex] = translated[batchIndex];
+          result.providers[textIndex] = provider.name;
+          const warnings = glossary ? checkGlossary(text, translated[batchIndex], glossary) : [];
+          warnings.forEach(warning => result.issues.push({
+            ...warning,
+            key,
+            provider: provider.name,
+            translation: translated[batchIndex],
+            resolved: false,
+          }));
+          return;
+        }
+        rejected.push(textIndex);
+        problems.forEach(problem => result.issues.push({
+          ...problem,
+          key,
+          provider: provider.name,
+          translation: translated[batchIndex],
+          resolved: false,
+        }));
+      });
+    }
+    if (rejected.length > 0) {
+      console.warn(`   - ${rejected.length} string(s) from ${provider.name} failed validation.`);
+    }
+    if (failed.length > 0 && failed.length < pending.length) {
+      console.warn(`   - ${failed.length} of ${pending.length} string(s) were in failed ${provider.name} requests.`);
+    }
+    if (skipped.length > 0) {
+      console.warn(`   - ${skipped.length} string(s) not sent to ${provider.name}: its character budget or quota is used up.`);
+    }
+    pending = [...failed, ...skipped, ...rejected].sort((a, b) => a - b);
+  }
+
+  const acceptedKeys = new Set(texts.filter((_, i) => result.translations[i] !== null).map(text => text.key));
+  result.issues
+    .filter(issue => issue.severity === 'error')
+    .forEach(issue => { issue.resolved = acceptedKeys.has(issue.key); });
+  return result;
+}
@@ -0,0 +1,24 @@
+import { ProviderErrorKind, TranslationProvider } from './types';
+
+/**
+ * Deterministic offline provider. Prefixes each text with the target language
+ * (e.g. `[DE] Devam Et`) so the full pipeline can run without network access or
+ * API keys, and so mock output is easy to spot in an app.
+ */
+export function createMockProvider(): TranslationProvider {
+  return {
+    name: 'mock',
+    supportedTargetLanguages: null,
+
+    isConfigured: () => true,
+
+    async translateBatch(texts: string[], targetLang: string): Promise<string[]> {
+      const tag = `[${targetLang.toUpperCase()}]`;
+      return texts.map(text => `${tag} ${text}`);
+    },
+
+    classifyError: (): ProviderErrorKind => 'unknown',
+
+    describeError: (error: unknown): string => `Mock provider error: ${(error as Error)?.message ?? error}`,
+  };
+}
@@ -0,0 +1,37 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { extractPlaceholders, restorePlaceholders } from '../text-processing';
+import { validateTranslation } from '../validation';
+import { pseudoLocalize } from './pseudo';
+
+describe('pseudoLocalize', () => {
+  it('accents, brackets and pads the text by about 40%', () => {
+    assert.equal(pseudoLocalize('Devam Et'), '[Ðéṽåɱ Éţ one]');
+    assert.equal(pseudoLocalize('Fotoğraf Çek'), '[Ƒöţöğŕåƒ Çéķ one two]');
+    assert.equal(
+      pseudoLocalize('Rulo işlendiğinde fotoğraflarınız albümünüzde görünecek'),
+      '[Ŕûļö îşļéñðîğîñðé ƒöţöğŕåƒļåŕıñıž åļƀüɱüñüžðé ĝöŕüñéçéķ one two three four five]'
+    );
+  });
+
+  it('leaves placeholder and glossary markers exactly as they are', () => {
+    const source = '{{count}} yeni mesaj, {name}';
+    const { textWithMarkers, placeholderMap } = extractPlaceholders(source);
+    const pseudo = pseudoLocalize(textWithMarkers);
+    assert.deepEqual(pseudo.match(/XPLACEHOLDERX\d+XPLACEHOLDERX/g), ['XPLACEHOLDERX0XPLACEHOLDERX', 'XPLACEHOLDERX1XPLACEHOLDERX']);
+
+    const restored = restorePlaceholders(pseudo, placeholderMap, 'en-XA');
+    assert.match(restored, /\{\{count\}\} ýéñî ɱéšåĵ, \{name\} one two\]$/);
+    assert.deepEqual(validateTranslation(source, restored), []);
+  });
+
+  it('counts only visible characters towards the padding, not markers', () => {
+    assert.equal(pseudoLocalize('XPLACEHOLDERX0XPLACEHOLDERX'), '[XPLACEHOLDERX0XPLACEHOLDERX one]');
+  });
+
+  it('keeps surrounding whitespace outside the brackets and line breaks in place', () => {
+    assert.equal(pseudoLocalize('  Tamam\n'), '  [Ţåɱåɱ one]\n');
+    assert.equal(pseudoLocalize('Satır\nsatır'), '[Šåţıŕ\nšåţıŕ one two]');
+    assert.equal(pseudoLocalize('   '), '   ');
+  });
+});
@@ -0,0 +1,72 @@
+import { ProviderErrorKind, TranslationProvider } from './types';
+
+// --- PSEUDO-LOCALIZATION ---
+//
+// `Devam Et` → `[Ðéṽåɱ Éţ one]`: accented, padded and bracketed, so text expansion,
+// clipping, missing glyphs and strings that bypass the translation system all stand out.
+
+const ACCENTED: { [char: string]: string } = {
+  a: 'å', b: 'ƀ', c: 'ç', d: 'ð', e: 'é', f: 'ƒ', g: 'ĝ', h: 'ĥ', i: 'î', j: 'ĵ', k: 'ķ', l: 'ļ', m: 'ɱ',
+  n: 'ñ', o: 'ö', p: 'þ', q: 'ǫ', r: 'ŕ', s: 'š', t: 'ţ', u: 'û', v: 'ṽ', w: 'ŵ', x: 'ẋ', y: 'ý', z: 'ž',
+  A: 'Å', B: 'Ɓ', C: 'Ç', D: 'Ð', E: 'É', F: 'Ƒ', G: 'Ĝ', H: 'Ĥ', I: 'Î', J: 'Ĵ', K: 'Ķ', L: 'Ļ', M: 'Ṁ',
+  N: 'Ñ', O: 'Ö', P: 'Þ', Q: 'Ǫ', R: 'Ŕ', S: 'Š', T: 'Ţ', U: 'Û', V: 'Ṽ', W: 'Ŵ', X: 'Ẋ', Y: 'Ý', Z: 'Ž',
+};
+
+const PADDING_WORDS = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten'];
+
+/** German runs 30-40% longer than English; short labels grow even more. */
+const EXPANSION = 0.4;
+
+/** Placeholder and glossary markers added by the pre-processing, left exactly as they are. */
+const MARKER_REGEX = /(XPLACEHOLDERX\d+XPLACEHOLDERX)/i;
+
+function accent(text: string): string {
+  return text.split(MARKER_REGEX).map((part, index) =>
+    index % 2 === 1 ? part : part.replace(/[a-zA-Z]/g, char => ACCENTED[char])
+  ).join('');
+}
+
+/** Words appended to reach the expansion target. Counts visible characters only, not markers. */
+function padding(text: string): string {
+  const length = [...text.replace(new RegExp(MARKER_REGEX.source, 'gi'), '')].length;
+  const target = Math.max(1, Math.ceil(length * EXPANSION));
+  const words: string[] = [];
+  let added = 0;
+  while (added < target) {
+    const word = PADDING_WORDS[words.length % PADDING_WORDS.length];
+    words.push(word);
+    added += word.length + 1;
+  }
+  return words.join(' ');
+}
+
+/**
+ * Keeps leading and trailing whitespace outside the brackets and line breaks where
+ * they are; the padding goes on the last line.
+ */
+export function pseudoLocalize(text: string): string {
+  const [, leading, content, trailing] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  if (content.length === 0) return text;
+  return `${leading}[${accent(content)} ${padding(content)}]${trailing}`;
+}
+
+/**
+ * Offline provider for pseudo-locales. Pseudo-locales (`qps`, `en-XA`) are always routed
+ * here; listing `pseudo` in the routing pseudo-localizes real languages too.
+ */
+export function createPseudoProvider(): TranslationProvider {
+  return {
+    name: 'pseudo',
+    supportedTargetLanguages: null,
+
+    isConfigured: () => true,
+
+    async translateBatch(texts: string[]): Promise<string[]> {
+      return texts.map(pseudoLocalize);
+    },
+
+    classifyError: (): ProviderErrorKind => 'unknown',
+
+    describeError: (error: unknown): string => `Pseudo provider error: ${(error as Error)?.message ?? error}`,
+  };
+}
@@ -0,0 +1,216 @@
+import { createDeepLProvider } from './deepl';
+import { createGoogleProvider } from './google';
+import { createMockProvider } from './mock';
+import { createPseudoProvider } from './pseudo';
+import { isPseudoLocale, languageSubtag, normalizeLocale } from '../locales';
+import { TranslationProvider } from './types';
+
+// --- PROVIDER REGISTRY ---
+
+type ProviderFactory = () => TranslationProvider;
+
+const providerFactories = new Map<string, ProviderFactory>([
+  ['deepl', () => createDeepLProvider(process.env.DEEPL_API_KEY)],
+  ['google', () => createGoogleProvider(process.env.GOOGLE_API_KEY)],
+  ['mock', () => createMockProvider()],
+  ['pseudo', () => createPseudoProvider()],
+]);
+
+export const DEFAULT_PROVIDER_ORDER = ['deepl', 'google'];
+
+/**
+ * Makes an additional provider available to routing by name.
+ * Registering an existing name replaces the previous factory.
+ */
+export function registerProvider(name: string, factory: ProviderFactory): void {
+  providerFactories.set(name.toLowerCase(), factory);
+}
+
+export function getRegisteredProviderNames(): string[] {
+  return [...providerFactories.keys()];
+}
+
+/**
+ * Routes a language pair through an intermediate language (e.g. tr→en→az).
+ * - `providers`: Order used for both hops instead of the regular routing. Each hop keeps
+ *   only the providers that support its target language.
+ * - `source`:    `reviewed` starts the second hop from the published pivot-language
+ *   translation (overrides applied) when it is up to date; `machine` always translates
+ *   the source text into the pivot language first.
+ */
+export interface PivotRoute {
+  via: string;
+  providers?: string[];
+  source: 'machine' | 'reviewed';
+}
+
+/**
+ * Fallback order of provider names. `languages` entries replace the default order and
+ * `pivots` route through an intermediate language. Both are keyed by target language
+ * (`az`) or by language pair (`tr>az`); a pair rule wins over a target-language rule.
+ */
+export interface ProviderRouting {
+  default: string[];
+  languages: { [languageOrPair: string]: string[] };
+  pivots: { [languageOrPair: string]: PivotRoute };
+}
+
+/**
+ * Routing as written in configuration: either a spec string such as
+ * `deepl,google;az=google;tr>az=deepl,google@en:reviewed` or a partial `ProviderRouting` object.
+ */
+export type ProviderRoutingSpec = string | {
+  default?: string[];
+  languages?: { [languageOrPair: string]: string[] };
+  pivots?: { [languageOrPair: string]: { via: string; providers?: string[]; source?: PivotRoute['source'] } };
+};
+
+const PIVOT_SOURCES: PivotRoute['source'][] = ['machine', 'reviewed'];
+
+function assertKnownProviders(names: string[]): void {
+  for (const name of names) {
+    if (!providerFactories.has(name)) {
+      throw new Error(`Unknown translation provider '${name}'. Available: ${getRegisteredProviderNames().join(', ')}`);
+    }
+  }
+}
+
+function toPivotRoute(rule: string, via: unknown, providers: string[] | undefined, source: unknown = 'machine'): PivotRoute {
+  if (typeof via !== 'string' || via.trim().length === 0) {
+    throw new Error(`Invalid pivot route for '${rule}': missing the pivot language.`);
+  }
+  if (!PIVOT_SOURCES.includes(source as PivotRoute['source'])) {
+    throw new Error(`Invalid pivot route for '${rule}': source must be one of ${PIVOT_SOURCES.join(', ')}.`);
+  }
+  if (providers) assertKnownProviders(providers);
+  return {
+    via: normalizeLocale(via),
+    providers: providers && providers.length > 0 ? providers : undefined,
+    source: source as PivotRoute['source'],
+  };
+}
+
+/**
+ * Parses a routing spec such as `deepl,google` or `deepl,google;az=google;ar=google,mock`.
+ * The first segment is the default order, the following `lang=...` segments are per-language
+ * (or `source>target` per-pair) overrides. `lang=providers@via[:reviewed]` adds a pivot route;
+ * the provider list may be empty to use the regular routing for both hops.
+ * Object specs are normalized and checked the same way.
+ */
+export function parseProviderRouting(spec: ProviderRoutingSpec | undefined): ProviderRouting {
+  const routing: ProviderRouting = { default: DEFAULT_PROVIDER_ORDER, languages: {}, pivots: {} };
+  const toList = (names: string[]) => names.map(name => name.trim().toLowerCase()).filter(Boolean);
+
+  if (spec !== undefined && typeof spec !== 'string') {
+    if (spec.default) routing.default = toList(spec.default);
+    for (const [lang, order] of Object.entries(spec.languages || {})) {
+      routing.languages[lang.toLowerCase()] = toList(order);
+    }
+    for (const [lang, pivot] of Object.entries(spec.pivots || {})) {
+      routing.pivots[lang.toLowerCase()] = toPivotRoute(lang, pivot?.via, pivot?.providers && toList(pivot.providers), pivot?.source);
+    }
+    [routing.default, ...Object.values(routing.languages)].forEach(assertKnownProviders);
+    return routing;
+  }
+
+  if (!spec || spec.trim().length === 0) return routing;
+
+  for (const segment of spec.split(';').map(s => s.trim()).filter(Boolean)) {
+    const [lang, order] = segment.includes('=') ? segment.split('=', 2) : [null, segment];
+    const [providerList, pivot] = order.split('@', 2);
+    const names = toList(providerList.split(','));
+    if (lang === null) {
+      if (pivot !== undefined) throw new Error(`Invalid provider routing '${segment}': pivots need a target language (e.g. az=deepl@en).`);
+      assertKnownProviders(names);
+      routing.default = names;
+    } else if (pivot !== undefined) {
+      const [via, source] = pivot.split(':', 2);
+      routing.pivots[lang.trim().toLowerCase()] = toPivotRoute(lang.trim(), via, names, source?.trim() || undefined);
+    } else {
+      assertKnownProviders(names);
+      routing.languages[lang.trim().toLowerCase()] = names;
+    }
+  }
+  return routing;
+}
+
+/**
+ * Instantiates every provider referenced by the routing, once each.
+ */
+export function createProviders(routing: ProviderRouting): Map<string, TranslationProvider> {
+  const names = new Set([
+    ...routing.default,
+    ...Object.values(routing.languages).flat(),
+    ...Object.values(routing.pivots).flatMap(pivot => pivot.providers ?? []),
+  ]);
+  const providers = new Map<string, TranslationProvider>();
+  for (const name of names) {
+    const factory = providerFactories.get(name);
+    if (factory) providers.set(name, factory());
+  }
+  return providers;
+}
+
+/** The rule for `source>target`, falling back to the rule for `target`. */
+function ruleFor<T>(rules: { [languageOrPair: string]: T }, targetLang: string, sourceLang?: string): T | undefined {
+  const target = targetLang.toLowerCase();
+  return (sourceLang ? rules[`${sourceLang.toLowerCase()}>${target}`] : undefined) ?? rules[target];
+}
+
+function supportsLanguage(provider: TranslationProvider, lang: string): boolean {
+  const supported = provider.supportedTargetLanguages;
+  return supported === null || supported.has(lang.toLowerCase()) || supported.has(languageSubtag(lang));
+}
+
+function supportingProviders(order: string[], lang: string, providers: Map<string, TranslationProvider>): TranslationProvider[] {
+  return order
+    .map(name => providers.get(name))
+    .filter((provider): provider is TranslationProvider => provider !== undefined && supportsLanguage(provider, lang));
+}
+
+/**
+ * Builds the ordered fallback chain for a target language (and optionally a source
+ * language, for pair rules), dropping providers that do not support the language.
+ * Pseudo-locales ignore the routing and always use the `pseudo` provider.
+ */
+export function resolveProviderChain(
+  lang: string,
+  routing: ProviderRouting,
+  providers: Map<string, TranslationProvider>,
+  sourceLang?: string
+): TranslationProvider[] {
+  if (isPseudoLocale(lang)) return [providers.get('pseudo') ?? createPseudoProvider()];
+  return supportingProviders(ruleFor(routing.languages, lang, sourceLang) ?? routing.default, lang, providers);
+}
+
+/**
+ * The pivot route for a language pair, or null when the pair is translated directly
+ * (no rule, the pivot is the source or target language itself, or a pseudo-locale).
+ */
+export function resolvePivotRoute(sourceLang: string, targetLang: string, routing: ProviderRouting): PivotRoute | null {
+  if (isPseudoLocale(targetLang)) return null;
+  const pivot = ruleFor(routing.pivots, targetLang, sourceLang);
+  const via = pivot?.via.toLowerCase();
+  if (!pivot || via === sourceLang.toLowerCase() || via === targetLang.toLowerCase()) return null;
+  return pivot;
+}
+
+/** Fallback chains for the two hops of a pivot route: source → pivot, then pivot → target. */
+export function resolvePivotChains(
+  pivot: PivotRoute,
+  sourceLang: string,
+  targetLang: string,
+  routing: ProviderRouting,
+  providers: Map<string, TranslationProvider>
+): { first: TranslationProvider[]; second: TranslationProvider[] } {
+  if (pivot.providers) {
+    return {
+      first: supportingProviders(pivot.providers, pivot.via, providers),
+      second: supportingProviders(pivot.providers, targetLang, providers),
+    };
+  }
+  return {
+    first: resolveProviderChain(pivot.via, routing, providers, sourceLang),
+    second: resolveProviderChain(targetLang, routing, providers, pivot.via),
+  };
+}
@@ -0,0 +1,90 @@
+import { KeyContext } from '../entries';
+import { GlossaryTerm } from '../glossary';
+
+// --- PROVIDER CONTRACT ---
+
+export interface TextToTranslate {
+  key: string;
+  text: string;
+  /** Optional character limit checked by the validation gate. */
+  maxLength?: number;
+  /** Developer notes from the source file's `_meta` block. */
+  context?: KeyContext;
+}
+
+/**
+ * How a failed provider call should be treated by the fallback chain.
+ * - `quota`:       The account ran out of characters (DeepL 456). Expected, fall back quietly.
+ * - `rate-limit`:  Too many requests (HTTP 429). Retried with backoff, then falls back quietly.
+ * - `auth`:        The API key was rejected.
+ * - `network`:     No response was received (timeout, DNS, connection reset). Retried.
+ * - `server`:      The provider failed (HTTP 5xx). Retried.
+ * - `unknown`:     Anything else, logged with full details.
+ */
+export type ProviderErrorKind = 'quota' | 'rate-limit' | 'auth' | 'network' | 'server' | 'unknown';
+
+/** Per-request limits of a provider API. Larger batches are split into chunks. */
+export interface BatchLimits {
+  maxTexts: number;
+  /** Maximum UTF-8 size of the texts in one request. */
+  maxBytes?: number;
+}
+
+/** Characters used in the current billing period, as reported by the provider. */
+export interface ProviderUsage {
+  characterCount: number;
+  /** Null when the account has no limit. */
+  characterLimit: number | null;
+}
+
+export interface TranslationProvider {
+  /** Identifier used in configuration, e.g. `deepl`, `google`, `mock`. */
+  readonly name: string;
+
+  /**
+   * Lower-case target languages this provider can translate into (`de`, `pt-br`). A locale
+   * is supported when it or its language subtag is listed. `null` means any language.
+   */
+  readonly supportedTargetLanguages: ReadonlySet<string> | null;
+
+  /** Request limits. Without them every batch is sent in a single request. */
+  readonly batchLimits?: BatchLimits;
+
+  /**
+   * Optional key for the request-wide parameters a text needs (DeepL's `context` and
+   * `formality`). Texts with different keys go in separate requests, each chunked,
+   * retried and reported on its own.
+   */
+  requestGroup?(context: KeyContext | undefined): string;
+
+  /** Whether the provider has everything it needs (e.g. an API key) to be used. */
+  isConfigured(): boolean;
+
+  /**
+   * Translates a batch of texts. The texts have already been through placeholder
+   * pre-processing; the result must have the same length and order as the input.
+   * Languages are BCP-47 locales (`pt-BR`); each provider maps them to its own codes.
+   * `contexts` holds the key context of each text (same order), for providers that can
+   * use it; others ignore it. The texts of a call share one `requestGroup`. Throws on failure.
+   */
+  translateBatch(texts: string[], targetLang: string, sourceLang: string, contexts?: (KeyContext | undefined)[]): Promise<string[]>;
+
+  /**
+   * Optional native glossary support. Called before `translateBatch` for a language pair;
+   * returns true when the provider will apply the terms itself, so they are not replaced
+   * with markers. Do-not-translate tokens are always protected with markers.
+   */
+  prepareGlossary?(sourceLang: string, targetLang: string, terms: GlossaryTerm[]): Promise<boolean>;
+
+  /** Optional usage endpoint (DeepL `/usage`), read before the first request when the provider has a budget. */
+  getUsage?(): Promise<ProviderUsage>;
+
+  /** Maps an error thrown by `translateBatch` to a fallback-friendly category. */
+  classifyError(error: unknown): ProviderErrorKind;
+
+  /** Formats an error thrown by `translateBatch` for the log. */
+  describeError(error: unknown): string;
+
+  /** Delay the API asked for before retrying (e.g. `Retry-After`), in milliseconds. */
+  retryAfterMs?(error: unknown): number | undefined;
+}
@@ -0,0 +1,117 @@
+import assert from 'assert/strict';
+import axios from 'axios';
+import { afterEach, describe, it, mock } from 'node:test';
+import { createRequestScheduler } from './batching';
+import { createDeepLProvider } from './deepl';
+import { translateWithFallback } from './index';
+import { createMockProvider } from './mock';
+import { ProviderErrorKind, TranslationProvider } from './types';
+import { createUsageTracker } from './usage';
+
+class ServerError extends Error {}
+
+/** A mock provider whose first `failures` requests fail with a retryable server error. */
+function createFlakyProvider(name: string, failures: number): TranslationProvider & { calls: number } {
+  const provider = {
+    ...createMockProvider(),
+    name,
+    calls: 0,
+    async translateBatch(texts: string[], targetLang: string) {
+      provider.calls++;
+      if (provider.calls <= failures) throw new ServerError('503');
+      return texts.map(text => `[${targetLang.toUpperCase()}] ${text}`);
+    },
+    classifyError: (error: unknown): ProviderErrorKind => (error instanceof ServerError ? 'server' : 'unknown'),
+  };
+  return provider;
+}
+
+const scheduler = () => createRequestScheduler({ concurrency: 1, retries: 2, backoffMs: 0, maxDelayMs: 1000 });
+const texts = [{ key: 'continue', text: 'Devam Et' }];
+
+afterEach(() => mock.restoreAll());
+
+describe('budget reservation across attempts', () => {
+  it('reserves the payload again for every retry', async () => {
+    const flaky = createFlakyProvider('flaky', 1);
+    const usage = createUsageTracker({ flaky: 20 });
+    const result = await translateWithFallback([flaky], texts, 'de', 'tr', { scheduler: scheduler(), usage });
+
+    assert.deepEqual(result?.translations, ['[DE] Devam Et']);
+    assert.equal(flaky.calls, 2);
+    assert.deepEqual(result?.requests.map(({ characters, attempts, outcome }) => ({ characters, attempts, outcome })), [
+      { characters: 8, attempts: 2, outcome: 'translated' },
+    ]);
+    assert.equal(usage.budgets()[0].sent, 16);
+  });
+
+  it('stops retrying once the budget is used up and falls back to the next provider', async () => {
+    const flaky = createFlakyProvider('flaky', 1);
+    const fallback = createFlakyProvider('fallback', 0);
+    const usage = createUsageTracker({ flaky: 12 });
+    const result = await translateWithFallback([flaky, fallback], texts, 'de', 'tr', { scheduler: scheduler(), usage });
+
+    assert.equal(flaky.calls, 1);
+    assert.deepEqual(result?.providers, ['fallback']);
+    assert.deepEqual(result?.requests.map(({ provider, attempts, outcome, error }) => ({ provider, attempts, outcome, error })), [
+      { provider: 'flaky', attempts: 1, outcome: 'failed', error: 'budget' },
+      { provider: 'fallback', attempts: 1, outcome: 'translated', error: undefined },
+    ]);
+    assert.equal(usage.budgets()[0].sent, 8);
+  });
+
+  it('skips a provider whose budget cannot hold the first attempt', async () => {
+    const flaky = createFlakyProvider('flaky', 0);
+    const usage = createUsageTracker({ flaky: 5 });
+    const result = await translateWithFallback([flaky], texts, 'de', 'tr', { scheduler: scheduler(), usage });
+
+    assert.equal(flaky.calls, 0);
+    assert.deepEqual(result?.translations, [null]);
+    assert.equal(result?.requests[0].outcome, 'skipped');
+  });
+
+  it('sends nothing to a provider once it reported its quota exceeded', async () => {
+    const provider = createFlakyProvider('flaky', 0);
+    const usage = createUsageTracker();
+    assert.equal(await usage.reserve(provider, 100), null);
+    usage.exhaust(provider);
+    assert.equal(await usage.reserve(provider, 1), 'quota');
+  });
+});
+
+describe('DeepL usage pre-flight', () => {
+  const deepl = () => createDeepLProvider('key:fx');
+
+  it('counts the characters DeepL reports for the billing period against the budget', async () => {
+    const get = mock.method(axios, 'get', async () => ({ data: { character_count: 900, character_limit: 500000 } }));
+    const usage = createUsageTracker({ deepl: 1000 });
+    const provider = deepl();
+
+    assert.equal(await usage.reserve(provider, 60), null);
+    assert.equal(await usage.reserve(provider, 60), 'budget');
+    assert.equal(await usage.reserve(provider, 40), null);
+    // The usage is read once per run.
+    assert.equal(get.mock.callCount(), 1);
+    assert.equal(String(get.mock.calls[0].arguments[0]).endsWith('/usage'), true);
+    assert.deepEqual(usage.budgets(), [{ provider: 'deepl', budget: 1000, usedBefore: 900, characterLimit: 500000, sent: 100 }]);
+  });
+
+  it('stops at the account limit when it is lower than the budget', async () => {
+    mock.method(axios, 'get', async () => ({ data: { character_count: 490, character_limit: 500 } }));
+    const usage = createUsageTracker({ deepl: 1000 });
+    assert.equal(await usage.reserve(deepl(), 20), 'budget');
+  });
+
+  it('sends nothing when the usage cannot be read', async () => {
+    mock.method(axios, 'get', async () => { throw new Error('offline'); });
+    const usage = createUsageTracker({ deepl: 1000 });
+    assert.equal(await usage.reserve(deepl(), 1), 'budget');
+    assert.match(usage.budgets()[0].error ?? '', /offline/);
+  });
+
+  it('does not call the usage endpoint without a budget', async () => {
+    const get = mock.method(axios, 'get', async () => ({ data: {} }));
+    assert.equal(await createUsageTracker().reserve(deepl(), 1000000), null);
+    assert.equal(get.mock.callCount(), 0);
+  });
+});
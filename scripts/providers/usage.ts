@@ -0,0 +1,120 @@
+import { ProviderErrorKind, TranslationProvider } from './types';
+
+// --- USAGE ACCOUNTING & CHARACTER BUDGETS ---
+
+/** Why texts were not sent to a provider: its character budget or its quota ran out. */
+export type UsageBlock = 'budget' | 'quota';
+
+/** One request (a chunk of a batch) to a provider, over all of its attempts. */
+export interface ProviderRequest {
+  provider: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  /** Whether the provider is a fallback in the chain, i.e. an earlier one failed or rejected these texts. */
+  fallback: boolean;
+  texts: number;
+  /**
+   * Characters of the payload as sent, with placeholders and glossary terms replaced by
+   * markers, which is what DeepL and Google bill. Each attempt sends them again.
+   */
+  characters: number;
+  /** Times the request was sent, retries included. A retry can be blocked by the budget too. */
+  attempts: number;
+  /** Texts whose translation passed the validation gate. */
+  accepted: number;
+  /** `skipped` requests were never sent. */
+  outcome: 'translated' | 'failed' | 'skipped';
+  error?: ProviderErrorKind | 'budget';
+}
+
+/**
+ * - `budget`:          Configured maximum for the billing period.
+ * - `usedBefore`:      Characters the provider reported at the start of the run (null without a usage endpoint).
+ * - `characterLimit`:  The account's own limit, when the provider reports one.
+ * - `sent`:            Characters sent in this run, retries and failed requests included.
+ * - `error`:           Set when the usage could not be read; the provider gets no texts then.
+ */
+export interface BudgetState {
+  provider: string;
+  budget: number;
+  usedBefore: number | null;
+  characterLimit: number | null;
+  sent: number;
+  error?: string;
+}
+
+/**
+ * Shared by every namespace of a run. Checks each provider's configured budget before
+ * its first request (the pre-flight check), reserves characters per attempt and stops
+ * a provider for the rest of the run once it reports its quota exceeded.
+ */
+export interface UsageTracker {
+  /**
+   * Reserves characters for one attempt of a request. Returns why it must not be sent, or null.
+   * Reservations are kept when the attempt fails: a timed-out request may still be billed.
+   */
+  reserve(provider: TranslationProvider, characters: number): Promise<UsageBlock | null>;
+  /** Marks a provider as out of quota, so no further requests are sent to it. */
+  exhaust(provider: TranslationProvider): void;
+  budgets(): BudgetState[];
+}
+
+/**
+ * Budgets are keyed by provider name. Providers with a usage endpoint (DeepL) count what
+ * was used earlier in the billing period; for the others only this run's characters count.
+ */
+export function createUsageTracker(budgets: { [provider: string]: number } = {}): UsageTracker {
+  const checks = new Map<string, Promise<BudgetState>>();
+  const states = new Map<string, BudgetState>();
+  const exhausted = new Set<string>();
+
+  async function preflight(provider: TranslationProvider, budget: number): Promise<BudgetState> {
+    const state: BudgetState = { provider: provider.name, budget, usedBefore: null, characterLimit: null, sent: 0 };
+    if (!provider.getUsage) {
+      console.log(`   - ${provider.name} budget: ${budget} character(s) for this run (no usage endpoint).`);
+      states.set(provider.name, state);
+      return state;
+    }
+    try {
+      const usage = await provider.getUsage();
+      state.usedBefore = usage.characterCount;
+      state.characterLimit = usage.characterLimit;
+      const limit = usage.characterLimit !== null ? ` of ${usage.characterLimit}` : '';
+      console.log(`   - ${provider.name} usage: ${usage.characterCount}${limit} character(s) this period, budget ${budget}.`);
+    } catch (error) {
+      // Without the usage, sending anything could go over the budget.
+      state.error = provider.describeError(error);
+      console.warn(`   - Could not check ${provider.name} usage, not sending it any texts: ${state.error}`);
+    }
+    states.set(provider.name, state);
+    return state;
+  }
+
+  function stateFor(provider: TranslationProvider): Promise<BudgetState> | undefined {
+    const budget = budgets[provider.name];
+    if (budget === undefined) return undefined;
+    if (!checks.has(provider.name)) checks.set(provider.name, preflight(provider, budget));
+    return checks.get(provider.name);
+  }
+
+  return {
+    async reserve(provider, characters) {
+      if (exhausted.has(provider.name)) return 'quota';
+      const state = await stateFor(provider);
+      if (!state) return null;
+      if (state.error) return 'budget';
+      const ceiling = Math.min(state.budget, state.characterLimit ?? Infinity);
+      if ((state.usedBefore ?? 0) + state.sent + characters > ceiling) return 'budget';
+      state.sent += characters;
+      return null;
+    },
+
+    exhaust(provider) {
+      exhausted.add(provider.name);
+    },
+
+    budgets() {
+      return [...states.values()].map(state => ({ ...state }));
+    },
+  };
+}
@@ -0,0 +1,243 @@
+// --- REVIEW FILES (XLIFF 2.0 / GETTEXT PO) ---
+//
+// One file per namespace and target language, for translators to review in a CAT tool.
+// Each unit carries the key, the source text and its md5 `sourceHash` (checked again on
+// import), the current translation, the machine translation and a review state. The key
+// context from the source file's `_meta` block is exported as notes for the translator.
+
+import { KeyContext } from './entries';
+import { escapeXml, readAttributes, unescapeXml } from './xml';
+
+/**
+ * - `initial`:     No current translation.
+ * - `machine`:     Published provider output, not reviewed yet.
+ * - `overridden`:  Published value comes from translation-overrides.json.
+ * - `reviewed`:    Set by a reviewer; the target is merged back as an override.
+ */
+export type ReviewState = 'initial' | 'machine' | 'overridden' | 'reviewed';
+
+export interface ReviewUnit {
+  key: string;
+  source: string;
+  sourceHash: string;
+  target: string;
+  machineTranslation?: string;
+  state: ReviewState;
+  /** Developer notes for the key. Export only; the source file stays their owner. */
+  context?: KeyContext;
+}
+
+export interface ReviewDocument {
+  namespace: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  units: ReviewUnit[];
+}
+
+export type ReviewFormat = 'xliff' | 'po';
+
+export const REVIEW_FILE_EXTENSIONS: { [format in ReviewFormat]: string } = { xliff: '.xlf', po: '.po' };
+
+/** Key context as `[name, value]` note pairs, in a fixed order. */
+function contextNotes(context: KeyContext | undefined): [string, string][] {
+  if (!context) return [];
+  const notes: [string, string | number | undefined][] = [
+    ['description', context.description],
+    ['type', context.type],
+    ['maxLength', context.maxLength],
+    ['formality', context.formality],
+  ];
+  return notes.filter((note): note is [string, string | number] => note[1] !== undefined).map(([name, value]) => [name, String(value)]);
+}
+
+// --- XLIFF 2.0 ---
+
+const SUB_STATE_PREFIX = 'translations-source:';
+
+/** Our states on top of the XLIFF 2.0 segment states. */
+const XLIFF_STATES: { [state in ReviewState]: string } = {
+  initial: 'initial',
+  machine: 'translated',
+  overridden: 'final',
+  reviewed: 'reviewed',
+};
+
+export function serializeXliff(document: ReviewDocument): string {
+  const units = document.units.map((unit, index) => [
+    `    <unit id="u${index + 1}" name="${escapeXml(unit.key)}">`,
+    '      <notes>',
+    `        <note category="sourceHash">${unit.sourceHash}</note>`,
+    ...(unit.machineTranslation !== undefined
+      ? [`        <note category="machineTranslation">${escapeXml(unit.machineTranslation)}</note>`]
+      : []),
+    ...contextNotes(unit.context).map(([name, value]) => `        <note category="${name}">${escapeXml(value)}</note>`),
+    '      </notes>',
+    `      <segment state="${XLIFF_STATES[unit.state]}" subState="${SUB_STATE_PREFIX}${unit.state}">`,
+    `        <source>${escapeXml(unit.source)}</source>`,
+    ...(unit.state === 'initial' ? [] : [`        <target>${escapeXml(unit.target)}</target>`]),
+    '      </segment>',
+    '    </unit>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${document.sourceLanguage}" trgLang="${document.targetLanguage}">`,
+    `  <file id="${escapeXml(document.namespace)}" original="${escapeXml(document.namespace)}.json">`,
+    ...units,
+    '  </file>',
+    '</xliff>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Reads the units back. A unit counts as reviewed when the CAT tool marked its segment
+ * `reviewed` or `final` (and it was not already an override that nobody touched).
+ */
+export function parseXliff(xml: string): ReviewDocument {
+  const root = readAttributes(xml.match(/<xliff\b[^>]*>/)?.[0] ?? '');
+  const file = readAttributes(xml.match(/<file\b[^>]*>/)?.[0] ?? '');
+  if (!root.srcLang || !root.trgLang || !file.id) {
+    throw new Error('Not an XLIFF 2.0 review file: missing srcLang, trgLang or file id.');
+  }
+
+  const units: ReviewUnit[] = [];
+  for (const [, unitAttributes, body] of xml.matchAll(/<unit\b([^>]*)>([\s\S]*?)<\/unit>/g)) {
+    const { id, name } = readAttributes(unitAttributes);
+    const note = (category: string) => {
+      const match = body.match(new RegExp(`<note\\b[^>]*category="${category}"[^>]*>([\\s\\S]*?)</note>`));
+      return match ? unescapeXml(match[1]) : undefined;
+    };
+    const segment = readAttributes(body.match(/<segment\b[^>]*>/)?.[0] ?? '');
+    const source = body.match(/<source\b[^>]*>([\s\S]*?)<\/source>/)?.[1];
+    const target = body.match(/<target\b[^>]*>([\s\S]*?)<\/target>/)?.[1];
+
+    const exportedState = segment.subState?.startsWith(SUB_STATE_PREFIX)
+      ? segment.subState.slice(SUB_STATE_PREFIX.length) as ReviewState
+      : undefined;
+    let state: ReviewState = exportedState ?? 'machine';
+    // Tools usually change `state` but keep our `subState`, so the state decides.
+    if (segment.state === 'reviewed' || (segment.state === 'final' && exportedState !== 'overridden')) state = 'reviewed';
+    if (segment.state === 'initial' || target === undefined) state = 'initial';
+
+    units.push({
+      key: name ?? id,
+      source: unescapeXml(source ?? ''),
+      sourceHash: note('sourceHash') ?? '',
+      target: unescapeXml(target ?? ''),
+      machineTranslation: note('machineTranslation'),
+      state,
+    });
+  }
+
+  return { namespace: file.id, sourceLanguage: root.srcLang, targetLanguage: root.trgLang, units };
+}
+
+// --- GETTEXT PO ---
+
+function quotePo(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t')}"`;
+}
+
+function unquotePo(lines: string[]): string {
+  return lines
+    .map(line => line.trim().replace(/^"|"$/g, ''))
+    .join('')
+    .replace(/\\(["\\nt])/g, (_, char) => ({ n: '\n', t: '\t', '"': '"', '\\': '\\' } as { [c: string]: string })[char]);
+}
+
+/** Comments can't span lines, so line breaks are written as `\n`. */
+function commentValue(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+/**
+ * Keys become `msgctxt`. Machine translations are flagged `fuzzy`; removing the flag
+ * (the usual "mark as reviewed" in PO editors) marks a unit as reviewed.
+ */
+export function serializePo(document: ReviewDocument): string {
+  const header = [
+    'msgid ""',
+    'msgstr ""',
+    quotePo(`Language: ${document.targetLanguage}\n`),
+    quotePo('MIME-Version: 1.0\n'),
+    quotePo('Content-Type: text/plain; charset=UTF-8\n'),
+    quotePo('Content-Transfer-Encoding: 8bit\n'),
+    quotePo(`X-Namespace: ${document.namespace}\n`),
+    quotePo(`X-Source-Language: ${document.sourceLanguage}\n`),
+  ].join('\n');
+
+  const entries = document.units.map(unit => [
+    `#. sourceHash: ${unit.sourceHash}`,
+    `#. state: ${unit.state}`,
+    ...(unit.machineTranslation !== undefined ? [`#. machineTranslation: ${commentValue(unit.machineTranslation)}`] : []),
+    ...contextNotes(unit.context).map(([name, value]) => `#. ${name}: ${commentValue(value)}`),
+    ...(unit.state === 'machine' ? ['#, fuzzy'] : []),
+    `msgctxt ${quotePo(unit.key)}`,
+    `msgid ${quotePo(unit.source)}`,
+    `msgstr ${quotePo(unit.state === 'initial' ? '' : unit.target)}`,
+  ].join('\n'));
+
+  return [header, ...entries].join('\n\n') + '\n';
+}
+
+export function parsePo(content: string): ReviewDocument {
+  const blocks = content.split(/\r?\n\s*\r?\n/).map(block => block.split(/\r?\n/).filter(line => line.trim().length > 0));
+  const headers: { [name: string]: string } = {};
+  const units: ReviewUnit[] = [];
+
+  for (const lines of blocks) {
+    const fields: { [name: string]: string[] } = {};
+    const comments: { [name: string]: string } = {};
+    let flags: string[] = [];
+    let current: string | null = null;
+
+    for (const line of lines) {
+      if (line.startsWith('#.')) {
+        const [, name, value] = line.match(/^#\.\s*(\w+):\s?(.*)$/) ?? [];
+        if (name) comments[name] = value.replace(/\\(n|\\)/g, (_, char) => (char === 'n' ? '\n' : '\\'));
+      } else if (line.startsWith('#,')) {
+        flags = line.slice(2).split(',').map(flag => flag.trim());
+      } else if (line.startsWith('#')) {
+        continue;
+      } else if (/^(msgctxt|msgid|msgstr)\s/.test(line)) {
+        current = line.split(/\s/, 1)[0];
+        fields[current] = [line.slice(current.length)];
+      } else if (current && line.trim().startsWith('"')) {
+        fields[current].push(line);
+      }
+    }
+
+    if (!fields.msgid) continue;
+    const msgid = unquotePo(fields.msgid);
+    const msgstr = unquotePo(fields.msgstr ?? []);
+    if (msgid === '' && !fields.msgctxt) {
+      for (const line of msgstr.split('\n')) {
+        const [name, ...value] = line.split(':');
+        if (value.length > 0) headers[name.trim()] = value.join(':').trim();
+      }
+      continue;
+    }
+
+    const exportedState = comments.state as ReviewState | undefined;
+    let state: ReviewState = flags.includes('fuzzy') ? 'machine' : 'reviewed';
+    if (exportedState === 'overridden' && state === 'reviewed') state = 'overridden';
+    if (msgstr === '') state = 'initial';
+    units.push({
+      key: fields.msgctxt ? unquotePo(fields.msgctxt) : msgid,
+      source: msgid,
+      sourceHash: comments.sourceHash ?? '',
+      target: msgstr,
+      machineTranslation: comments.machineTranslation,
+      state,
+    });
+  }
+
+  const namespace = headers['X-Namespace'];
+  const targetLanguage = headers['Language'];
+  const sourceLanguage = headers['X-Source-Language'];
+  if (!namespace || !targetLanguage || !sourceLanguage) {
+    throw new Error('Not a review PO file: missing Language, X-Namespace or X-Source-Language header.');
+  }
+  return { namespace, sourceLanguage, targetLanguage, units };
+}
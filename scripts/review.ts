@@ -0,0 +1,264 @@
+import fs from 'fs/promises';
+import path from 'path';
+import yargs from 'yargs/yargs';
+import { hideBin } from 'yargs/helpers';
+import dotenv from 'dotenv';
+import { detectSourceLanguage, LoadedConfig, loadConfig, NamespaceConfig, resolveFallbackChain } from './config';
+import { extractKeyContexts, flattenObject, isTranslationEntry, KeyContext, md5 } from './entries';
+import { normalizeLocale } from './locales';
+import {
+  isStaleOverride,
+  loadMachineTranslations,
+  loadOverrides,
+  OverrideConfig,
+  overrideText,
+  restoreMachineTranslations,
+  writeOverrides,
+} from './overrides';
+import {
+  parsePo,
+  parseXliff,
+  REVIEW_FILE_EXTENSIONS,
+  ReviewDocument,
+  ReviewFormat,
+  serializePo,
+  serializeXliff,
+  ReviewUnit,
+} from './review-files';
+
+dotenv.config();
+
+// --- HUMAN REVIEW EXPORT / IMPORT ---
+//
+//   npm run review -- export --format xliff --out ./review [--namespace login] [--languages de,fr]
+//   npm run review -- import ./review
+//
+// Export reads the published translations (TRANSLATION_CACHE_DIR, or the output directory).
+// Import turns reviewed units into translation-overrides.json entries.
+
+async function readPublished(dir: string, namespace: string, lang: string): Promise<{ [key: string]: any }> {
+  try {
+    return flattenObject(JSON.parse(await fs.readFile(path.resolve(dir, namespace, `${lang}.json`), 'utf-8')));
+  } catch (error) {
+    return {};
+  }
+}
+
+/**
+ * Provider output published for a language, merged over its fallback chain (variant files
+ * only hold what differs). Overridden entries are replaced by the machine translations kept
+ * next to the published files.
+ */
+async function readMachineTranslations(config: LoadedConfig, dir: string, namespace: NamespaceConfig, lang: string): Promise<{ [key: string]: any }> {
+  const effective: { [key: string]: any } = {};
+  for (const locale of [lang, ...resolveFallbackChain(lang, namespace, config)].reverse()) {
+    const published = await readPublished(dir, namespace.name, locale);
+    const machineTranslations = await loadMachineTranslations(dir, namespace.name, locale, published);
+    Object.assign(effective, restoreMachineTranslations(published, machineTranslations));
+  }
+  return effective;
+}
+
+async function readSourceStrings(namespace: NamespaceConfig): Promise<{ [key: string]: string }> {
+  const flatSource = flattenObject(JSON.parse(await fs.readFile(namespace.source, 'utf-8')));
+  const strings: { [key: string]: string } = {};
+  for (const [key, value] of Object.entries(flatSource)) {
+    if (typeof value === 'string') strings[key] = value;
+  }
+  return strings;
+}
+
+async function readKeyContexts(namespace: NamespaceConfig): Promise<{ [key: string]: KeyContext }> {
+  return extractKeyContexts(JSON.parse(await fs.readFile(namespace.source, 'utf-8')));
+}
+
+/** Provider output for a key (null when stale or missing). */
+function publishedMachineTranslation(entry: any, sourceText: string): string | null {
+  if (!isTranslationEntry(entry) || entry.sourceHash !== md5(sourceText)) return null;
+  return entry.translation;
+}
+
+async function buildDocument(
+  config: LoadedConfig,
+  namespace: NamespaceConfig,
+  lang: string,
+  publishedDir: string,
+  overrides: OverrideConfig
+): Promise<ReviewDocument> {
+  const sourceStrings = await readSourceStrings(namespace);
+  const contexts = await readKeyContexts(namespace);
+  const published = await readMachineTranslations(config, publishedDir, namespace, lang);
+  const langOverrides = overrides[namespace.name]?.[lang] ?? {};
+
+  const units: ReviewUnit[] = Object.entries(sourceStrings).map(([key, source]): ReviewUnit => {
+    const unit = { key, source, sourceHash: md5(source), context: contexts[key] };
+    const machineTranslation = publishedMachineTranslation(published[key], source) ?? undefined;
+    const override = langOverrides[key];
+    // Stale overrides are not applied by the build, so they are reviewed like machine output.
+    if (override !== undefined && !isStaleOverride(override, source)) {
+      return { ...unit, target: overrideText(override), machineTranslation, state: 'overridden' };
+    }
+    if (machineTranslation === undefined) {
+      return { ...unit, target: '', state: 'initial' };
+    }
+    return { ...unit, target: machineTranslation, machineTranslation, state: 'machine' };
+  });
+
+  return {
+    namespace: namespace.name,
+    sourceLanguage: namespace.sourceLanguage ?? detectSourceLanguage(namespace.source, config),
+    targetLanguage: lang,
+    units,
+  };
+}
+
+async function exportReviewFiles(argv: {
+  config?: string; format: ReviewFormat; out: string; namespace?: string; languages?: string; from?: string;
+}): Promise<void> {
+  const config = await loadConfig(argv.config);
+  const overrides = await loadOverrides();
+  const publishedDir = argv.from ?? process.env.TRANSLATION_CACHE_DIR ?? config.outputDir;
+  const requestedNamespaces = argv.namespace?.split(',').map(name => name.trim());
+  const requestedLanguages = argv.languages?.split(',').map(lang => lang.trim());
+  const namespaces = config.namespaces.filter(ns => !requestedNamespaces || requestedNamespaces.includes(ns.name));
+
+  console.log(`Exporting ${argv.format.toUpperCase()} review files from ${publishedDir}`);
+  for (const namespace of namespaces) {
+    const sourceLanguage = namespace.sourceLanguage ?? detectSourceLanguage(namespace.source, config);
+    const languages = (namespace.languages ?? config.languages)
+      .filter(lang => lang !== sourceLanguage && (!requestedLanguages || requestedLanguages.includes(lang)));
+
+    for (const lang of languages) {
+      const document = await buildDocument(config, namespace, lang, publishedDir, overrides);
+      const filePath = path.resolve(argv.out, namespace.name, `${lang}${REVIEW_FILE_EXTENSIONS[argv.format]}`);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, argv.format === 'xliff' ? serializeXliff(document) : serializePo(document), 'utf-8');
+      console.log(`   - ${namespace.name}/${lang}: ${document.units.length} unit(s) -> ${filePath}`);
+    }
+  }
+}
+
+async function collectReviewFiles(paths: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const target of paths) {
+    const stat = await fs.stat(target);
+    if (stat.isDirectory()) {
+      const children = (await fs.readdir(target)).map(child => path.join(target, child));
+      files.push(...await collectReviewFiles(children));
+    } else if (/\.(xlf|xliff|po)$/i.test(target)) {
+      files.push(target);
+    }
+  }
+  return files;
+}
+
+async function importReviewFiles(argv: { config?: string; paths: string[]; from?: string }): Promise<void> {
+  const config = await loadConfig(argv.config);
+  const overrides = await loadOverrides();
+  const publishedDir = argv.from ?? process.env.TRANSLATION_CACHE_DIR ?? config.outputDir;
+  const rejected: string[] = [];
+  let merged = 0;
+  let removed = 0;
+
+  for (const file of await collectReviewFiles(argv.paths)) {
+    const content = await fs.readFile(file, 'utf-8');
+    const document = /\.po$/i.test(file) ? parsePo(content) : parseXliff(content);
+    const namespace = config.namespaces.find(ns => ns.name === document.namespace);
+    if (!namespace) {
+      rejected.push(`${file}: unknown namespace '${document.namespace}'`);
+      continue;
+    }
+
+    // Tools write tags like `pt-br`; overrides are keyed by the configured spelling.
+    const lang = normalizeLocale(document.targetLanguage);
+    if (!(namespace.languages ?? config.languages).includes(lang)) {
+      rejected.push(`${file}: language '${document.targetLanguage}' is not configured for ${namespace.name}`);
+      continue;
+    }
+    const sourceStrings = await readSourceStrings(namespace);
+    const published = await readMachineTranslations(config, publishedDir, namespace, lang);
+
+    for (const unit of document.units) {
+      if (unit.state !== 'reviewed' && unit.state !== 'overridden') continue;
+      const location = `${namespace.name}/${lang}/${unit.key}`;
+      const sourceText = sourceStrings[unit.key];
+      if (sourceText === undefined) {
+        rejected.push(`${location}: key is no longer in the source`);
+        continue;
+      }
+      if (md5(sourceText) !== unit.sourceHash) {
+        rejected.push(`${location}: source text changed since the export`);
+        continue;
+      }
+
+      const langOverrides = (overrides[namespace.name] ??= {})[lang] ??= {};
+      const machineTranslation = publishedMachineTranslation(published[unit.key], sourceText) ?? unit.machineTranslation;
+      if (unit.target === machineTranslation) {
+        // Reviewed and accepted as is - no override needed.
+        if (langOverrides[unit.key] !== undefined) {
+          delete langOverrides[unit.key];
+          removed++;
+        }
+        continue;
+      }
+      const current = langOverrides[unit.key];
+      if (current === undefined || overrideText(current) !== unit.target || isStaleOverride(current, sourceText)) {
+        langOverrides[unit.key] = { translation: unit.target, sourceHash: unit.sourceHash };
+        merged++;
+      }
+    }
+    console.log(`   - Read ${document.units.length} unit(s) from ${file}`);
+  }
+
+  // Drop language and namespace objects that ended up empty
+  for (const [namespace, languages] of Object.entries(overrides)) {
+    for (const [lang, entries] of Object.entries(languages)) {
+      if (Object.keys(entries).length === 0) delete languages[lang];
+    }
+    if (Object.keys(languages).length === 0) delete overrides[namespace];
+  }
+
+  if (merged > 0 || removed > 0) await writeOverrides(overrides);
+  console.log(`\nMerged ${merged} override(s), removed ${removed} that match the machine translation.`);
+  if (rejected.length > 0) {
+    console.warn(`Rejected ${rejected.length} unit(s):`);
+    rejected.forEach(reason => console.warn(`   - ${reason}`));
+    process.exitCode = 1;
+  }
+}
+
+async function run() {
+  try {
+    await yargs(hideBin(process.argv))
+      .option('config', { alias: 'c', type: 'string', description: 'Path to translations.config.(json|ts). Defaults to the repository root.' })
+      .option('from', {
+        type: 'string',
+        description: 'Directory with the published translations. Defaults to TRANSLATION_CACHE_DIR, then the output directory.',
+      })
+      .command(
+        'export',
+        'Write XLIFF 2.0 or PO review files, one per namespace and target language',
+        args => args
+          .option('format', { alias: 'f', choices: ['xliff', 'po'] as const, default: 'xliff' as ReviewFormat, description: 'File format' })
+          .option('out', { alias: 'o', type: 'string', default: './review', description: 'Output directory' })
+          .option('namespace', { alias: 'n', type: 'string', description: 'Comma-separated namespaces. Defaults to all.' })
+          .option('languages', { alias: 'l', type: 'string', description: 'Comma-separated target languages. Defaults to all.' }),
+        argv => exportReviewFiles(argv)
+      )
+      .command(
+        'import <paths..>',
+        'Merge reviewed units from XLIFF/PO files (or directories) into translation-overrides.json',
+        args => args.positional('paths', { type: 'string', array: true, demandOption: true }),
+        argv => importReviewFiles({ ...argv, paths: argv.paths as string[] })
+      )
+      .demandCommand(1, 'Specify a command: export or import.')
+      .strict()
+      .help()
+      .parseAsync();
+  } catch (error) {
+    console.error('\nAn error occurred while processing review files:', (error as Error).message);
+    process.exit(1);
+  }
+}
+
+run();
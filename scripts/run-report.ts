@@ -0,0 +1,207 @@
+import { BudgetState, ProviderRequest } from './providers';
+
+// --- RUN REPORT ---
+//
+// What a translate run did, per namespace and language: where every string came from,
+// which provider handled each request, how many characters were sent and what failed.
+// Written as JSON for tooling and as Markdown for people (e.g. the CI job summary).
+
+export type LanguageStatus = 'base' | 'up-to-date' | 'planned' | 'translated' | 'partial' | 'failed';
+
+/**
+ * - `complete`:  Every file was published and is up to date.
+ * - `degraded`:  Files were published, but some strings are missing or stale (provider failures, rejected translations).
+ * - `failed`:    At least one namespace could not be built; its published files were left unchanged.
+ */
+export type BuildStatus = 'complete' | 'degraded' | 'failed';
+
+export interface LanguageReport {
+  language: string;
+  status: LanguageStatus;
+  /** Up-to-date strings kept from the published file. */
+  cached: number;
+  /** Strings translated in this run, including those taken from the translation memory. */
+  translated: number;
+  /** Strings taken from the translation memory. */
+  reused: number;
+  /** Strings every provider failed or got rejected for; they kept their published value, if any. */
+  rejected: number;
+  /** Strings whose published value comes from translation-overrides.json. */
+  overridden: number;
+  /** Strings translated by each provider. Pivot translations are counted as `name@pivot`. */
+  providers: { [provider: string]: number };
+  requests: ProviderRequest[];
+}
+
+export interface NamespaceReport {
+  namespace: string;
+  sourceLanguage: string;
+  status: BuildStatus;
+  /** Set when the namespace could not be built. */
+  error?: string;
+  /** Strings in the source file. */
+  strings: number;
+  /** Published strings that are missing or stale, as `lang/key`. */
+  staleKeys: string[];
+  staleOverrides: string[];
+  languages: LanguageReport[];
+}
+
+export interface ProviderTotals {
+  provider: string;
+  requests: number;
+  /** Characters sent, counting every attempt of every request (the budget counts the same). */
+  characters: number;
+  /** Attempts beyond the first, i.e. requests sent again after a retryable error. */
+  retries: number;
+  /** Strings that passed the validation gate. */
+  accepted: number;
+  /** Of those, strings the provider translated as a fallback. */
+  acceptedAsFallback: number;
+  failedRequests: number;
+  /** Requests not sent because the budget or quota was used up. */
+  skippedRequests: number;
+  budget?: BudgetState;
+}
+
+export interface RunReport {
+  status: BuildStatus;
+  /** Commit the run built, when known (GITHUB_SHA in CI). */
+  commit?: string;
+  generatedAt: string;
+  providers: ProviderTotals[];
+  namespaces: NamespaceReport[];
+}
+
+/** Totals per provider, in the order the providers were first used. */
+export function summarizeProviderUsage(requests: ProviderRequest[], budgets: BudgetState[]): ProviderTotals[] {
+  const totals = new Map<string, ProviderTotals>();
+  const totalsFor = (provider: string) => {
+    if (!totals.has(provider)) {
+      totals.set(provider, {
+        provider,
+        requests: 0,
+        characters: 0,
+        retries: 0,
+        accepted: 0,
+        acceptedAsFallback: 0,
+        failedRequests: 0,
+        skippedRequests: 0,
+      });
+    }
+    return totals.get(provider)!;
+  };
+
+  for (const request of requests) {
+    const total = totalsFor(request.provider);
+    if (request.outcome === 'skipped') {
+      total.skippedRequests++;
+      continue;
+    }
+    total.requests++;
+    total.characters += request.characters * request.attempts;
+    total.retries += Math.max(request.attempts - 1, 0);
+    if (request.outcome === 'failed') {
+      total.failedRequests++;
+      continue;
+    }
+    total.accepted += request.accepted;
+    if (request.fallback) total.acceptedAsFallback += request.accepted;
+  }
+  for (const budget of budgets) totalsFor(budget.provider).budget = budget;
+  return [...totals.values()];
+}
+
+// --- MARKDOWN ---
+
+/** Stale keys listed per namespace; the JSON report has all of them. */
+const STALE_KEYS_LISTED = 20;
+
+function table(header: string[], rows: (string | number)[][]): string[] {
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.join(' | ')} |`),
+  ];
+}
+
+function describeBudget(budget: BudgetState | undefined): string {
+  if (!budget) return '';
+  if (budget.error) return `${budget.budget} (usage unknown, not used)`;
+  const used = budget.usedBefore !== null ? `${budget.usedBefore} + ${budget.sent}` : `${budget.sent}`;
+  return `${used} of ${budget.budget}`;
+}
+
+function describeProviders(providers: { [provider: string]: number }): string {
+  return Object.entries(providers).map(([provider, count]) => `${provider}: ${count}`).join(', ') || '–';
+}
+
+export function renderRunReport(report: RunReport): string {
+  const lines = [
+    '# Translation run report',
+    '',
+    `**Status:** ${report.status} · ${report.generatedAt}${report.commit ? ` · ${report.commit.slice(0, 7)}` : ''}`,
+    '',
+    '## Providers',
+    '',
+  ];
+  if (report.providers.length === 0) {
+    lines.push('No provider requests were made.');
+  } else {
+    lines.push(...table(
+      ['Provider', 'Requests', 'Retries', 'Characters', 'Strings', 'As fallback', 'Failed', 'Skipped', 'Budget'],
+      report.providers.map(total => [
+        total.provider,
+        total.requests,
+        total.retries,
+        total.characters,
+        total.accepted,
+        total.acceptedAsFallback,
+        total.failedRequests,
+        total.skippedRequests,
+        describeBudget(total.budget),
+      ])
+    ));
+  }
+
+  for (const namespace of report.namespaces) {
+    lines.push('', `## ${namespace.namespace} (${namespace.sourceLanguage}): ${namespace.status}`, '');
+    if (namespace.error) {
+      lines.push(`Not published: ${namespace.error}`);
+      continue;
+    }
+    lines.push(...table(
+      ['Language', 'Status', 'Cached', 'Translated', 'From memory', 'Overridden', 'Rejected', 'Providers'],
+      namespace.languages.map(lang => [
+        lang.language,
+        lang.status,
+        lang.cached,
+        lang.translated,
+        lang.reused,
+        lang.overridden,
+        lang.rejected,
+        describeProviders(lang.providers),
+      ])
+    ));
+
+    const failures = namespace.languages.flatMap(lang => lang.requests
+      .filter(request => request.outcome !== 'translated')
+      .map(request =>
+        `- ${lang.language}: ${request.provider} ${request.outcome} (${request.error}), ` +
+        `${request.texts} string(s), ${request.characters} character(s)` +
+        (request.attempts > 1 ? ` × ${request.attempts} attempts` : '') +
+        (request.targetLanguage !== lang.language ? `, ${request.sourceLanguage} → ${request.targetLanguage}` : '')
+      ));
+    if (failures.length > 0) lines.push('', '**Failed and skipped requests**', '', ...failures);
+
+    if (namespace.staleKeys.length > 0) {
+      const listed = namespace.staleKeys.slice(0, STALE_KEYS_LISTED).map(key => `\`${key}\``).join(', ');
+      const more = namespace.staleKeys.length > STALE_KEYS_LISTED ? ` and ${namespace.staleKeys.length - STALE_KEYS_LISTED} more` : '';
+      lines.push('', `**Missing or stale strings (${namespace.staleKeys.length}):** ${listed}${more}`);
+    }
+    if (namespace.staleOverrides.length > 0) {
+      lines.push('', `**Stale overrides:** ${namespace.staleOverrides.map(entry => `\`${entry}\``).join(', ')}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
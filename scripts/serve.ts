@@ -0,0 +1,230 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import http from 'http';
+import path from 'path';
+import { spawn } from 'child_process';
+import yargs from 'yargs/yargs';
+import { hideBin } from 'yargs/helpers';
+import dotenv from 'dotenv';
+import { LoadedConfig, loadConfig } from './config';
+
+dotenv.config();
+
+// --- LOCAL DEV SERVER ---
+//
+//   npm run serve [-- --port 4000 --providers mock]
+//
+// Builds the output directory and serves it with the CDN's URL layout (`manifest.json`,
+// `<namespace>/<lang>.json`). Changes to source/*.json rebuild the affected namespaces;
+// the previous output is the cache, so only new or changed keys reach the provider.
+// The rebuilt manifest gets a new version, which is what clients poll for.
+
+const OVERRIDES_FILE_NAME = 'translation-overrides.json';
+const DEBOUNCE_MS = 300;
+
+interface ServeOptions {
+  config?: string;
+  providers: string;
+  languages?: string;
+}
+
+/**
+ * Runs the translate script in a child process, with the output directory as its cache.
+ * The translation memory stays untouched, so dev builds never leak into it.
+ */
+function runTranslate(config: LoadedConfig, namespaces: string[] | 'all', options: ServeOptions): Promise<boolean> {
+  const args = [
+    require.resolve('ts-node/dist/bin'),
+    path.join(__dirname, 'translate.ts'),
+    ...(namespaces === 'all' ? ['--all'] : ['--namespace', namespaces.join(',')]),
+    '--providers', options.providers,
+    '--no-memory',
+    ...(options.config ? ['--config', options.config] : []),
+    ...(options.languages ? ['--languages', options.languages] : []),
+  ];
+  return new Promise(resolve => {
+    const child = spawn(process.execPath, args, {
+      stdio: 'inherit',
+      env: { ...process.env, TRANSLATION_CACHE_DIR: config.outputDir },
+    });
+    child.on('error', error => {
+      console.error(`   - Could not start the build: ${error.message}`);
+      resolve(false);
+    });
+    // Exit code 2 is a degraded build: published, with some strings missing or stale.
+    child.on('exit', code => resolve(code === 0 || code === 2));
+  });
+}
+
+async function readManifestVersion(config: LoadedConfig): Promise<string | undefined> {
+  try {
+    return JSON.parse(await fsp.readFile(path.join(config.outputDir, 'manifest.json'), 'utf-8')).version;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+async function readOverrides(overridesPath: string): Promise<{ [namespace: string]: unknown }> {
+  try {
+    return JSON.parse(await fsp.readFile(overridesPath, 'utf-8'));
+  } catch (error) {
+    // Missing, or saved half-way: treat as empty, the next save triggers another rebuild.
+    return {};
+  }
+}
+
+/**
+ * Namespaces affected by a set of changed files in the source directory. A source file
+ * rebuilds its namespace, the overrides file the namespaces whose overrides changed, and
+ * anything else (glossary, length limits) every namespace.
+ */
+function affectedNamespaces(
+  config: LoadedConfig,
+  changedFiles: Set<string>,
+  previousOverrides: { [namespace: string]: unknown },
+  currentOverrides: { [namespace: string]: unknown }
+): Set<string> {
+  const affected = new Set<string>();
+  for (const filePath of changedFiles) {
+    const owner = config.namespaces.find(ns => path.resolve(ns.source) === filePath);
+    if (owner) {
+      affected.add(owner.name);
+    } else if (path.basename(filePath) === OVERRIDES_FILE_NAME) {
+      for (const namespace of new Set([...Object.keys(previousOverrides), ...Object.keys(currentOverrides)])) {
+        const changed = JSON.stringify(previousOverrides[namespace]) !== JSON.stringify(currentOverrides[namespace]);
+        if (changed && config.namespaces.some(ns => ns.name === namespace)) affected.add(namespace);
+      }
+    } else {
+      config.namespaces.forEach(ns => affected.add(ns.name));
+    }
+  }
+  return affected;
+}
+
+/** Serves files from the output directory. Anything outside it, or not JSON, is a 404. */
+function createDevServer(outputDir: string): http.Server {
+  const root = path.resolve(outputDir);
+  return http.createServer(async (request, response) => {
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Cache-Control', 'no-cache');
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, { 'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS' });
+      response.end();
+      return;
+    }
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      response.writeHead(405);
+      response.end();
+      return;
+    }
+
+    const urlPath = decodeURIComponent(new URL(request.url ?? '/', 'http://localhost').pathname);
+    const filePath = path.resolve(root, `.${urlPath}`);
+    if (!filePath.startsWith(root + path.sep) || !filePath.endsWith('.json')) {
+      response.writeHead(404);
+      response.end();
+      return;
+    }
+    try {
+      const content = await fsp.readFile(filePath);
+      response.writeHead(200, { 'Content-Type': 'application/json; charset=utf-8', 'Content-Length': content.length });
+      response.end(request.method === 'HEAD' ? undefined : content);
+    } catch (error) {
+      response.writeHead(404);
+      response.end();
+    }
+  });
+}
+
+/**
+ * Watches the directories of the source files and the overrides file. Saves are debounced
+ * and builds never overlap: changes made during a build are picked up right after it.
+ */
+function watchSources(config: LoadedConfig, options: ServeOptions): void {
+  const overridesPath = path.resolve(__dirname, '../source', OVERRIDES_FILE_NAME);
+  const directories = new Set([path.dirname(overridesPath), ...config.namespaces.map(ns => path.dirname(path.resolve(ns.source)))]);
+  const pending = new Set<string>();
+  let overridesSnapshot: Promise<{ [namespace: string]: unknown }> = readOverrides(overridesPath);
+  let timer: NodeJS.Timeout | null = null;
+  let building = false;
+
+  async function rebuild(): Promise<void> {
+    if (building || pending.size === 0) return;
+    building = true;
+    const changedFiles = new Set(pending);
+    pending.clear();
+
+    const previousOverrides = await overridesSnapshot;
+    overridesSnapshot = readOverrides(overridesPath);
+    const namespaces = [...affectedNamespaces(config, changedFiles, previousOverrides, await overridesSnapshot)];
+    if (namespaces.length > 0) {
+      const changed = [...changedFiles].map(filePath => path.basename(filePath)).join(', ');
+      console.log(`\n[serve] ${changed} changed, rebuilding ${namespaces.join(', ')}`);
+      const previousVersion = await readManifestVersion(config);
+      const succeeded = await runTranslate(config, namespaces, options);
+      const version = await readManifestVersion(config);
+      if (!succeeded) {
+        console.error('[serve] Build failed; still serving the previous files.');
+      } else if (version !== previousVersion) {
+        console.log(`[serve] Manifest ${previousVersion ?? 'none'} → ${version}`);
+      } else {
+        console.log('[serve] Published files did not change.');
+      }
+    }
+
+    building = false;
+    if (pending.size > 0) void rebuild();
+  }
+
+  for (const directory of directories) {
+    fs.watch(directory, (_, fileName) => {
+      if (!fileName || !fileName.toString().endsWith('.json')) return;
+      pending.add(path.join(directory, fileName.toString()));
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => void rebuild(), DEBOUNCE_MS);
+    });
+  }
+  console.log(`[serve] Watching ${[...directories].map(directory => path.relative(process.cwd(), directory) || '.').join(', ')}`);
+}
+
+async function run() {
+  const argv = await yargs(hideBin(process.argv))
+    .option('config', { alias: 'c', type: 'string', description: 'Path to translations.config.(json|ts). Defaults to the repository root.' })
+    .option('port', { type: 'number', default: Number(process.env.TRANSLATIONS_SERVE_PORT ?? 4000), description: 'Port to serve the output directory on.' })
+    .option('providers', {
+      alias: 'p',
+      type: 'string',
+      default: process.env.TRANSLATION_PROVIDERS ?? 'mock',
+      description: 'Provider routing for the builds (same syntax as translate). Defaults to the offline "mock" provider.',
+    })
+    .option('languages', { alias: 'l', type: 'string', description: 'Optional: Comma-separated list of languages to build. Defaults to the configured languages.' })
+    .option('build', { type: 'boolean', default: true, description: 'Build every namespace before serving. --no-build serves the existing output as it is.' })
+    .option('watch', { type: 'boolean', default: true, description: 'Rebuild when source files or overrides change.' })
+    .help().argv;
+
+  try {
+    const config = await loadConfig(argv.config);
+    const options: ServeOptions = { config: argv.config, providers: argv.providers, languages: argv.languages };
+
+    if (argv.build) {
+      console.log(`[serve] Building ${config.outputDir} with providers: ${argv.providers}`);
+      if (!await runTranslate(config, 'all', options)) {
+        console.warn('[serve] The initial build failed; serving what is in the output directory.');
+      }
+    }
+
+    const server = createDevServer(config.outputDir);
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(argv.port, () => resolve());
+    });
+    console.log(`\n[serve] Serving ${config.outputDir} at http://localhost:${argv.port} (manifest ${await readManifestVersion(config) ?? 'missing'})`);
+
+    if (argv.watch) watchSources(config, options);
+  } catch (error) {
+    console.error('\nAn error occurred while starting the dev server:', (error as Error).message);
+    process.exit(1);
+  }
+}
+
+run();
@@ -0,0 +1,114 @@
+import assert from 'assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { md5 } from './entries';
+import { checkTranslationFile, createStagingDir, discardStagingDir, publishStagingDir } from './staging';
+
+const source = { title: 'Giriş', button: 'Devam Et', limit: 3 };
+const entry = (translation: string, sourceText: string) => ({ translation, sourceHash: md5(sourceText) });
+
+let root: string;
+let target: string;
+
+const read = async (filePath: string) => JSON.parse(await fs.readFile(filePath, 'utf-8'));
+const write = (filePath: string, content: unknown) => fs.writeFile(filePath, JSON.stringify(content), 'utf-8');
+const exists = (filePath: string) => fs.access(filePath).then(() => true, () => false);
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'staging-test-'));
+  target = path.join(root, 'dist', 'login');
+  await fs.mkdir(target, { recursive: true });
+  await write(path.join(target, 'de.json'), { title: entry('Anmelden', source.title) });
+  await write(path.join(target, 'fr.json'), { title: entry('Connexion', source.title) });
+});
+
+afterEach(() => fs.rm(root, { recursive: true, force: true }));
+
+describe('staged output', () => {
+  it('stages a copy of the published files next to dist, not inside it', async () => {
+    const staging = await createStagingDir(target);
+    assert.equal(staging.dir, path.join(root, '.staging', 'login'));
+    assert.deepEqual((await fs.readdir(staging.dir)).sort(), ['de.json', 'fr.json']);
+    assert.deepEqual(await fs.readdir(path.join(root, 'dist')), ['login']);
+  });
+
+  it('swaps the staging copy in, keeping the languages not built in the run', async () => {
+    const staging = await createStagingDir(target);
+    await write(path.join(staging.dir, 'de.json'), { title: entry('Einloggen', source.title) });
+    await publishStagingDir(staging);
+
+    assert.deepEqual(await read(path.join(target, 'de.json')), { title: entry('Einloggen', source.title) });
+    assert.deepEqual(await read(path.join(target, 'fr.json')), { title: entry('Connexion', source.title) });
+    assert.equal(await exists(staging.dir), false);
+    assert.deepEqual(await fs.readdir(path.join(root, '.staging')), []);
+  });
+
+  it('publishes a namespace that had no files yet', async () => {
+    const staging = await createStagingDir(path.join(root, 'dist', 'photo-app'));
+    await write(path.join(staging.dir, 'de.json'), {});
+    await publishStagingDir(staging);
+    assert.deepEqual(await fs.readdir(path.join(root, 'dist', 'photo-app')), ['de.json']);
+  });
+
+  it('puts the previous files back when the swap fails', async () => {
+    const staging = await createStagingDir(target);
+    await fs.rm(staging.dir, { recursive: true });
+    await assert.rejects(publishStagingDir(staging));
+
+    assert.deepEqual((await fs.readdir(target)).sort(), ['de.json', 'fr.json']);
+    assert.equal(await exists(path.join(root, '.staging', 'login.previous')), false);
+  });
+
+  it('removes what older builds left in dist', async () => {
+    await fs.mkdir(path.join(root, 'dist', '.login.staging'));
+    await fs.mkdir(path.join(root, 'dist', '.login.previous'));
+    await publishStagingDir(await createStagingDir(target));
+    assert.deepEqual(await fs.readdir(path.join(root, 'dist')), ['login']);
+  });
+
+  it('leaves dist untouched when the output checks fail', async () => {
+    const staging = await createStagingDir(target);
+    const filePath = path.join(staging.dir, 'de.json');
+    await write(filePath, { title: 'Anmelden', removed: entry('Alt', 'Eski') });
+
+    const check = await checkTranslationFile(filePath, source);
+    assert.equal(check.errors.length, 2);
+    await discardStagingDir(staging);
+
+    assert.deepEqual(await read(path.join(target, 'de.json')), { title: entry('Anmelden', source.title) });
+    assert.equal(await exists(staging.dir), false);
+  });
+});
+
+describe('checkTranslationFile', () => {
+  const check = async (content: unknown, inheritedKeys?: { [key: string]: string }) => {
+    const filePath = path.join(target, 'check.json');
+    await (typeof content === 'string' ? fs.writeFile(filePath, content, 'utf-8') : write(filePath, content));
+    return checkTranslationFile(filePath, source, inheritedKeys);
+  };
+
+  it('accepts a complete file', async () => {
+    assert.deepEqual(
+      await check({ title: entry('Anmelden', source.title), button: entry('Weiter', source.button), limit: 3 }),
+      { errors: [], staleKeys: [] }
+    );
+  });
+
+  it('reports broken JSON, keys not in the source, malformed entries and changed non-string values', async () => {
+    assert.match((await check('{ "title": ')).errors[0], /check\.json: not readable JSON/);
+    assert.deepEqual((await check({ title: 'Anmelden', extra: entry('x', 'x'), limit: 4 })).errors, [
+      "check.json: 'title' is not a { translation, sourceHash } entry",
+      "check.json: 'extra' is not in the source",
+      "check.json: 'limit' does not match its non-string source value",
+    ]);
+  });
+
+  it('reports missing and outdated entries as stale, counting inherited keys as present', async () => {
+    const file = { title: entry('Anmelden', 'Eski giriş'), limit: 3 };
+    assert.deepEqual((await check(file)).staleKeys, ['title', 'button']);
+    assert.deepEqual((await check(file, { button: md5(source.button) })).staleKeys, ['title']);
+    assert.deepEqual((await check(file, { button: md5('Devam') })).staleKeys, ['title', 'button']);
+  });
+});
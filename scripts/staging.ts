@@ -0,0 +1,138 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { flattenObject, isTranslationEntry, md5 } from './entries';
+
+// --- STAGED OUTPUT ---
+//
+// A namespace is built into a staging copy of its output directory. Only when every file
+// written in the run passes the output checks is the copy swapped in, so a failed or
+// interrupted build never leaves a half-written namespace behind.
+//
+// Staging copies live in a `.staging` directory next to the output root (`dist`), not
+// inside it: whatever an interrupted run leaves there is never deployed. It stays on the
+// same file system as the output, so the swap is still a rename. The directory itself is
+// kept: namespaces are built concurrently and stage in it side by side.
+
+export interface StagingDir {
+  /** The published directory the staging copy replaces. */
+  target: string;
+  /** Where the run writes its files. */
+  dir: string;
+}
+
+/** `dist/<namespace>` → `.staging/<namespace>`, with `dist` and `.staging` side by side. */
+function stagingRoot(target: string): string {
+  return path.join(path.dirname(path.dirname(path.resolve(target))), '.staging');
+}
+
+function stagingPath(target: string, suffix = ''): string {
+  return path.join(stagingRoot(target), `${path.basename(target)}${suffix}`);
+}
+
+/** Older builds staged inside the output root (`dist/.<namespace>.staging`); removes what they left. */
+async function removeLegacyStagingDirs(target: string): Promise<void> {
+  for (const suffix of ['staging', 'previous']) {
+    await fs.rm(path.join(path.dirname(target), `.${path.basename(target)}.${suffix}`), { recursive: true, force: true });
+  }
+}
+
+/** Starts from a copy of the published files, so languages not built in this run are kept. */
+export async function createStagingDir(target: string): Promise<StagingDir> {
+  const dir = stagingPath(target);
+  await removeLegacyStagingDirs(target);
+  await fs.rm(dir, { recursive: true, force: true });
+  await fs.mkdir(path.dirname(dir), { recursive: true });
+  try {
+    await fs.cp(target, dir, { recursive: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    await fs.mkdir(dir, { recursive: true });
+  }
+  return { target, dir };
+}
+
+/**
+ * Swaps the staging copy in with two renames. If the second one fails, the previous
+ * directory is put back before the error is rethrown.
+ */
+export async function publishStagingDir(staging: StagingDir): Promise<void> {
+  const previous = stagingPath(staging.target, '.previous');
+  await fs.rm(previous, { recursive: true, force: true });
+  await fs.mkdir(path.dirname(staging.target), { recursive: true });
+
+  let hadPrevious = true;
+  try {
+    await fs.rename(staging.target, previous);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    hadPrevious = false;
+  }
+  try {
+    await fs.rename(staging.dir, staging.target);
+  } catch (error) {
+    if (hadPrevious) await fs.rename(previous, staging.target);
+    throw error;
+  }
+  if (hadPrevious) await fs.rm(previous, { recursive: true, force: true });
+}
+
+export async function discardStagingDir(staging: StagingDir): Promise<void> {
+  await fs.rm(staging.dir, { recursive: true, force: true });
+}
+
+/** Writes through a temporary file and a rename, so readers never see a partial file. */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const temporaryPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(temporaryPath, content, 'utf-8');
+  await fs.rename(temporaryPath, filePath);
+}
+
+// --- OUTPUT CHECKS ---
+
+export interface OutputCheck {
+  /** Broken files: the namespace must not be published. */
+  errors: string[];
+  /** Source strings whose entry is missing or was translated from an older source text. */
+  staleKeys: string[];
+}
+
+/**
+ * Checks a written translation file against the source: valid JSON, only source keys,
+ * `{ translation, sourceHash }` entries for strings and the source value for everything
+ * else. Keys listed in `inheritedKeys` (a variant's sidecar) count as present.
+ */
+export async function checkTranslationFile(
+  filePath: string,
+  flatSource: { [key: string]: any },
+  inheritedKeys: { [key: string]: string } = {}
+): Promise<OutputCheck> {
+  const fileName = path.basename(filePath);
+  let flat: { [key: string]: any };
+  try {
+    flat = flattenObject(JSON.parse(await fs.readFile(filePath, 'utf-8')));
+  } catch (error) {
+    return { errors: [`${fileName}: not readable JSON (${(error as Error).message})`], staleKeys: [] };
+  }
+
+  const errors: string[] = [];
+  const staleKeys: string[] = [];
+  for (const [key, value] of Object.entries(flat)) {
+    const sourceValue = flatSource[key];
+    if (sourceValue === undefined) {
+      errors.push(`${fileName}: '${key}' is not in the source`);
+    } else if (typeof sourceValue !== 'string') {
+      if (JSON.stringify(value) !== JSON.stringify(sourceValue)) errors.push(`${fileName}: '${key}' does not match its non-string source value`);
+    } else if (!isTranslationEntry(value) || typeof value.translation !== 'string' || typeof value.sourceHash !== 'string') {
+      errors.push(`${fileName}: '${key}' is not a { translation, sourceHash } entry`);
+    } else if (value.sourceHash !== md5(sourceValue)) {
+      staleKeys.push(key);
+    }
+  }
+  for (const key of Object.keys(inheritedKeys)) {
+    if (typeof flatSource[key] !== 'string') errors.push(`${fileName}: inherits '${key}', which is not a source string`);
+  }
+  for (const [key, sourceValue] of Object.entries(flatSource)) {
+    if (typeof sourceValue === 'string' && flat[key] === undefined && inheritedKeys[key] !== md5(sourceValue)) staleKeys.push(key);
+  }
+  return { errors, staleKeys };
+}
@@ -0,0 +1,100 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { protectGlossaryTerms } from './glossary';
+import { extractPlaceholders, normalizeTranslationPunctuation, restorePlaceholders } from './text-processing';
+
+const MARKER = 'XPLACEHOLDERX0XPLACEHOLDERX';
+
+/** Extracts the placeholders of `source` and puts them back into `translated` (which holds the markers). */
+function roundTrip(source: string, translated: string, targetLang: string): string {
+  const { placeholderMap } = extractPlaceholders(source);
+  return restorePlaceholders(translated, placeholderMap, targetLang);
+}
+
+describe('restorePlaceholders', () => {
+  it('puts Latin-script placeholders back between single spaces', () => {
+    assert.equal(roundTrip('{{count}} yeni mesajınız var', `You have ${MARKER} new messages`, 'en'), 'You have {{count}} new messages');
+    assert.equal(roundTrip('{name} ile paylaş', `Mit  ${MARKER}  teilen`, 'de'), 'Mit {name} teilen');
+  });
+
+  it('recognizes markers whose case the provider changed', () => {
+    assert.equal(roundTrip('Merhaba {{name}}', `Bonjour ${MARKER.toLowerCase()}`, 'fr'), 'Bonjour {{name}}');
+  });
+
+  it('leaves Latin-script text without markers unchanged', () => {
+    assert.equal(roundTrip('Devam Et', 'Continue', 'en'), 'Continue');
+    assert.equal(roundTrip('Satır 1\nSatır {{n}}', `Line 1\nLine ${MARKER}`, 'en'), 'Line 1\nLine {{n}}');
+  });
+
+  it('wraps placeholders in FSI/PDI isolates for RTL languages', () => {
+    assert.equal(
+      roundTrip('{{count}} yeni mesajınız var', `لديك ${MARKER} رسائل جديدة`, 'ar'),
+      'لديك \u2068{{count}}\u2069 رسائل جديدة'
+    );
+    assert.equal(roundTrip('{name} ile paylaş', `שתף עם ${MARKER}`, 'he'), 'שתף עם \u2068{name}\u2069');
+  });
+
+  it('trims the spaces around placeholders next to CJK characters', () => {
+    assert.equal(roundTrip('{{count}} yeni mesaj', `${MARKER} 件の新着メッセージ`, 'ja'), '{{count}}件の新着メッセージ');
+    assert.equal(roundTrip('{{name}} ile paylaş', `与 ${MARKER} 分享`, 'zh-Hant'), '与{{name}}分享');
+  });
+
+  it('keeps a space between CJK placeholders and Latin words, and keeps ideographic spaces', () => {
+    assert.equal(roundTrip('Yeni {{name}} App', `新しい ${MARKER} App`, 'ja'), '新しい{{name}} App');
+    assert.equal(roundTrip('Merhaba {{name}}', `こんにちは　${MARKER} さん`, 'ja'), 'こんにちは　{{name}}さん');
+  });
+});
+
+describe('restorePlaceholders with glossary markers', () => {
+  const glossary = { doNotTranslate: ['Tuborg'], terms: [{ source: 'rulo', target: 'لفافة' }] };
+
+  function protect(source: string, targetLang: string) {
+    const { textWithMarkers, placeholderMap } = extractPlaceholders(source);
+    const protectedText = protectGlossaryTerms(textWithMarkers, placeholderMap, glossary, { includeTerms: true, targetLang });
+    return { protectedText, placeholderMap };
+  }
+
+  it('puts do-not-translate tokens and glossary terms back without isolates in RTL languages', () => {
+    const { protectedText, placeholderMap } = protect('Tuborg rulo', 'ar');
+    assert.ok(!/Tuborg|rulo/.test(protectedText));
+    assert.deepEqual([...placeholderMap.values()], ['Tuborg', 'لفافة']);
+    assert.equal(restorePlaceholders(`XPLACEHOLDERX1XPLACEHOLDERX من ${MARKER}`, placeholderMap, 'ar'), 'لفافة من Tuborg');
+  });
+
+  it('still isolates the interpolation placeholders of the same text', () => {
+    const { placeholderMap } = protect('{{count}} Tuborg', 'ar');
+    assert.equal(
+      restorePlaceholders(`${MARKER} من XPLACEHOLDERX1XPLACEHOLDERX`, placeholderMap, 'ar'),
+      '\u2068{{count}}\u2069 من Tuborg'
+    );
+  });
+});
+
+describe('normalizeTranslationPunctuation', () => {
+  it('removes Latin final marks the source does not have', () => {
+    assert.equal(normalizeTranslationPunctuation('Tamam', 'Okay.', 'en'), 'Okay');
+    assert.equal(normalizeTranslationPunctuation('Devam Et', 'Weiter!', 'de'), 'Weiter');
+    assert.equal(normalizeTranslationPunctuation('Yükleniyor', 'Loading...', 'en'), 'Loading');
+    assert.equal(normalizeTranslationPunctuation('Tamam', 'Okay. ', 'en'), 'Okay ');
+  });
+
+  it('leaves the translation unchanged when the source ends with a mark or nothing needs removing', () => {
+    assert.equal(normalizeTranslationPunctuation('Emin misin?', 'Are you sure?', 'en'), 'Are you sure?');
+    assert.equal(normalizeTranslationPunctuation('Kaydedildi.', '保存しました。', 'ja'), '保存しました。');
+    assert.equal(normalizeTranslationPunctuation('Tamam', 'Okay', 'en'), 'Okay');
+    // CJK marks are not final punctuation in Latin-script languages.
+    assert.equal(normalizeTranslationPunctuation('Tamam', 'Okay。', 'en'), 'Okay。');
+  });
+
+  it('removes CJK full-width marks and ellipses', () => {
+    assert.equal(normalizeTranslationPunctuation('Tamam', 'はい。', 'ja'), 'はい');
+    assert.equal(normalizeTranslationPunctuation('Devam Et', '继续！', 'zh'), '继续');
+    assert.equal(normalizeTranslationPunctuation('Yükleniyor', '読み込み中……', 'ja'), '読み込み中');
+  });
+
+  it('removes RTL question marks and full stops', () => {
+    assert.equal(normalizeTranslationPunctuation('Emin misin', 'هل أنت متأكد؟', 'ar'), 'هل أنت متأكد');
+    assert.equal(normalizeTranslationPunctuation('Tamam', 'ٹھیک ہے۔', 'ur'), 'ٹھیک ہے');
+    assert.equal(normalizeTranslationPunctuation('Emin misin?', 'هل أنت متأكد؟', 'ar'), 'هل أنت متأكد؟');
+  });
+});
@@ -0,0 +1,159 @@
+import { languageSubtag } from './locales';
+
+// --- SCRIPT RULES ---
+
+/** Post-processing rules for the writing system of a target language. */
+export interface ScriptRules {
+  /** Sentence-final marks, removed from the translation when the source ends without one. */
+  finalPunctuation: string[];
+  /** Wrap placeholders in bidi isolates (FSI … PDI), so RTL reordering can't move them or their neighbours. */
+  isolatePlaceholders: boolean;
+  /** Written without spaces between words: placeholders next to native characters get no spaces. */
+  noWordSpacing: boolean;
+}
+
+const ELLIPSES = ['...', '…'];
+const LATIN_FINAL_PUNCTUATION = [...ELLIPSES, '.', '?', '!'];
+
+const RTL_LANGUAGES = new Set(['ar', 'fa', 'he', 'ur', 'ps', 'sd', 'ug', 'yi', 'dv', 'ckb']);
+const NO_WORD_SPACING_LANGUAGES = new Set(['ja', 'zh', 'yue']);
+
+const DEFAULT_RULES: ScriptRules = { finalPunctuation: LATIN_FINAL_PUNCTUATION, isolatePlaceholders: false, noWordSpacing: false };
+
+const RTL_RULES: ScriptRules = {
+  // Arabic question mark, Urdu full stop
+  finalPunctuation: [...LATIN_FINAL_PUNCTUATION, '؟', '۔'],
+  isolatePlaceholders: true,
+  noWordSpacing: false,
+};
+
+const CJK_RULES: ScriptRules = {
+  // Ideographic full stop and full-width marks
+  finalPunctuation: ['……', ...LATIN_FINAL_PUNCTUATION, '。', '？', '！', '．'],
+  isolatePlaceholders: false,
+  noWordSpacing: true,
+};
+
+/** Every final mark any script knows, for checking source texts. */
+const ALL_FINAL_PUNCTUATION = [...new Set([...RTL_RULES.finalPunctuation, ...CJK_RULES.finalPunctuation])];
+
+/** Han, kana, full-width forms and CJK punctuation. */
+const CJK_CHAR_REGEX = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u3000-\u303f\uff00-\uffef]/u;
+
+export function getScriptRules(lang: string | undefined): ScriptRules {
+  if (!lang) return DEFAULT_RULES;
+  const language = languageSubtag(lang);
+  if (RTL_LANGUAGES.has(language)) return RTL_RULES;
+  if (NO_WORD_SPACING_LANGUAGES.has(language)) return CJK_RULES;
+  return DEFAULT_RULES;
+}
+
+// --- PLACEHOLDER HANDLING LOGIC (from TranslationService.ts) ---
+
+const PLACEHOLDER_REGEX = /\{\{?\w+\}?\}/g;
+
+export function extractPlaceholders(text: string): { textWithMarkers: string; placeholderMap: Map<string, string> } {
+  const placeholders = text.match(PLACEHOLDER_REGEX) || [];
+  if (placeholders.length === 0) {
+    return { textWithMarkers: text, placeholderMap: new Map() };
+  }
+  let textWithMarkers = text;
+  const placeholderMap = new Map<string, string>();
+  placeholders.forEach((placeholder, index) => {
+    const marker = `XPLACEHOLDERX${index}XPLACEHOLDERX`;
+    placeholderMap.set(marker, placeholder);
+    textWithMarkers = textWithMarkers.replace(placeholder, ` ${marker} `);
+  });
+  return { textWithMarkers, placeholderMap };
+}
+
+/**
+ * Puts the placeholders back in place of their markers. Markers are surrounded by single
+ * spaces, except in languages written without spaces, where a space is only kept next to
+ * Latin letters or digits. In RTL languages, placeholders are wrapped in bidi isolates;
+ * glossary tokens and terms sharing the markers are plain text of a known direction and are
+ * put back as they are.
+ */
+export function restorePlaceholders(translatedText: string, placeholderMap: Map<string, string>, targetLang?: string): string {
+  if (placeholderMap.size === 0) return translatedText;
+  const rules = getScriptRules(targetLang);
+  const spaceNextTo = (char: string | undefined) =>
+    !rules.noWordSpacing || (char !== undefined && /[\p{L}\p{N}]/u.test(char) && !CJK_CHAR_REGEX.test(char)) ? ' ' : '';
+  // Ideographic spaces (U+3000) are intentional, so only ASCII spacing is collapsed there.
+  const spacing = rules.noWordSpacing ? '[ \\t]*' : '[^\\S\\n]*';
+  let result = translatedText;
+  for (const [marker, placeholder] of placeholderMap.entries()) {
+    const markerVariations = [
+      marker, marker.toLowerCase(), marker.toUpperCase(), marker.replace(/X/g, 'x'),
+      marker.substring(0, marker.length - 1), marker.substring(1),
+    ];
+    for (const variation of markerVariations) {
+      const escapedMarker = variation.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const regex = new RegExp(`${spacing}${escapedMarker}${spacing}`, 'gi');
+      if (regex.test(result)) {
+        const isPlaceholder = new RegExp(`^${PLACEHOLDER_REGEX.source}$`).test(placeholder);
+        const restored = rules.isolatePlaceholders && isPlaceholder ? `\u2068${placeholder}\u2069` : placeholder;
+        result = result.replace(regex, (match: string, offset: number, text: string) =>
+          `${spaceNextTo(text[offset - 1])}${restored}${spaceNextTo(text[offset + match.length])}`
+        );
+        break;
+      }
+    }
+  }
+  if (rules.noWordSpacing) {
+    return result.replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').replace(/^ +| +$/g, '');
+  }
+  // Collapse the spacing added around markers, but keep intentional line breaks.
+  return result.replace(/[^\S\n]+/g, ' ').replace(/ *\n */g, '\n').trim();
+}
+
+// --- Pre-processing Function ---
+export function preprocessTextsForTranslation(texts: { key: string, text: string }[]): {
+  processedTexts: string[];
+  placeholderMaps: Map<string, string>[];
+} {
+  const processedTexts: string[] = [];
+  const placeholderMaps: Map<string, string>[] = [];
+  texts.forEach(item => {
+    const { textWithMarkers, placeholderMap } = extractPlaceholders(item.text);
+    processedTexts.push(textWithMarkers);
+    placeholderMaps.push(placeholderMap);
+  });
+  return { processedTexts, placeholderMaps };
+}
+
+// --- POST-PROCESSING FUNCTIONS ---
+
+/**
+ * Removes trailing punctuation from translations if the source text doesn't have it.
+ * This fixes cases where translation APIs add periods to short texts like "Tamam" -> "Okay."
+ * The marks removed depend on the target script (e.g. `。`, `？`, `！` for ja/zh, `؟` for ar).
+ */
+export function normalizeTranslationPunctuation(sourceText: string, translatedText: string, targetLang?: string): string {
+  // Trim whitespace to check actual content
+  const sourceTrimmed = sourceText.trim();
+  const translatedTrimmed = translatedText.trim();
+
+  if (sourceTrimmed.length === 0 || translatedTrimmed.length === 0) {
+    return translatedText; // Return original if empty
+  }
+
+  // If source has punctuation, keep translation as is
+  if (ALL_FINAL_PUNCTUATION.some(mark => sourceTrimmed.endsWith(mark))) {
+    return translatedText;
+  }
+
+  // Remove a trailing ellipsis first (longer patterns first), then a single mark
+  const { finalPunctuation } = getScriptRules(targetLang);
+  const ellipses = finalPunctuation.filter(mark => mark.length > 1 || ELLIPSES.includes(mark));
+  const marks = finalPunctuation.filter(mark => !ellipses.includes(mark));
+  let cleaned = translatedTrimmed;
+  const ellipsis = ellipses.find(mark => cleaned.endsWith(mark));
+  if (ellipsis) cleaned = cleaned.slice(0, -ellipsis.length).trimEnd();
+  const mark = marks.find(candidate => cleaned.endsWith(candidate));
+  if (mark) cleaned = cleaned.slice(0, -mark.length).trimEnd();
+
+  // Preserve original trailing whitespace from translatedText if it existed
+  const trailingWhitespace = translatedText.match(/\s*$/)?.[0] || '';
+  return cleaned + trailingWhitespace;
+}
@@ -1,406 +1,351 @@
 import fs from 'fs/promises';
 import path from 'path';
-import axios from 'axios';
 import yargs from 'yargs/yargs';
 import { hideBin } from 'yargs/helpers';
 import dotenv from 'dotenv';
-import { createHash } from 'crypto';
+import {
+  createProviders,
+  createRequestScheduler,
+  createUsageTracker,
+  parseProviderRouting,
+  PivotRoute,
+  ProviderRequest,
+  ProviderRouting,
+  RequestScheduler,
+  resolvePivotChains,
+  resolvePivotRoute,
+  resolveProviderChain,
+  TextToTranslate,
+  TranslationProvider,
+  translateWithFallback,
+  UsageTracker,
+} from './providers';
+import { extractKeyContexts, flattenObject, isTranslationEntry, md5, TranslationEntry, unflattenObject } from './entries';
+import { expandIcuForTranslation } from './icu';
+import { validateTranslation, ValidationIssue } from './validation';
+import { detectSourceLanguage, LoadedConfig, loadConfig, resolveFallbackChain } from './config';
+import { isPseudoLocale, normalizeLocale } from './locales';
+import { mapWithConcurrency, withBufferedConsole } from './concurrency';
+import { GlossaryConfig, isGlossaryEmpty, loadGlossary, resolveGlossary } from './glossary';
+import { describeCoverage, writeManifest } from './manifest';
+import { changedKeys, classifyChanges, printChanges, printDiff } from './diff';
+import { confirmedInheritance, INHERITED_KEYS_SUFFIX, InheritedKeys, loadInheritedKeys, loadInheritedTranslations, omitInherited } from './variants';
+import { isOfflineProvider, loadOfflineKeys, loadTranslationMemory, OFFLINE_KEYS_SUFFIX, TranslationMemory } from './translation-memory';
+import {
+  applyOverrides,
+  loadMachineTranslations,
+  loadOverrides,
+  MACHINE_TRANSLATIONS_SUFFIX,
+  OverrideConfig,
+  restoreMachineTranslations,
+} from './overrides';
+import { checkTranslationFile, createStagingDir, discardStagingDir, publishStagingDir, StagingDir, writeFileAtomic } from './staging';
+import { BuildStatus, LanguageStatus, ProviderTotals, renderRunReport, RunReport, summarizeProviderUsage } from './run-report';
 
 // Load environment variables from .env file
 dotenv.config();
 
 // --- CONFIGURATION ---
-const DEEPL_API_KEY = process.env.DEEPL_API_KEY;
-const GOOGLE_API_KEY = process.env.GOOGLE_API_KEY;
 const CACHE_DIR = process.env.TRANSLATION_CACHE_DIR; // e.g., './dist-cache'
 
-const DEEPL_API_URL_FREE = 'https://api-free.deepl.com/v2/translate';
-const GOOGLE_API_URL = `https://translation.googleapis.com/language/translate/v2`;
-
-const DEEPL_SUPPORTED_TARGET_LANGS = new Set([
-  'bg', 'cs', 'da', 'de', 'el', 'en', 'es', 'et', 'fi', 'fr',
-  'hu', 'id', 'it', 'ja', 'ko', 'lt', 'lv', 'nb', 'nl', 'pl', 'pt',
-  'ro', 'ru', 'sk', 'sl', 'sv', 'tr', 'uk', 'zh'
-]);
-const DEFAULT_BASE_LANGUAGE = 'tr';
-
-// All supported languages by the application, from TranslationService.ts
-const ALL_SUPPORTED_LANGUAGES = [
-  'tr', 'en', 'az', 'de', 'es', 'fr', 'it', 'pt', 'ru', 'ja', 'ko', 'zh', 'ar'
-];
-
-// --- HASHING & DATA STRUCTURE ---
-interface TranslationEntry {
-  translation: string;
-  sourceHash: string;
-}
+// --- LENGTH LIMITS ---
 
-function md5(text: string): string {
-  return createHash('md5').update(text).digest('hex');
+interface LengthLimitConfig {
+  [namespace: string]: {
+    [key: string]: number;
+  };
 }
 
-function isTranslationEntry(obj: any): obj is TranslationEntry {
-  return typeof obj === 'object' && obj !== null && 'translation' in obj && 'sourceHash' in obj;
+/**
+ * Loads optional per-key maximum lengths from the source/length-limits.json file.
+ * Returns an empty object if the file doesn't exist or can't be parsed.
+ */
+async function loadLengthLimits(): Promise<LengthLimitConfig> {
+  const limitsPath = path.resolve(__dirname, '../source/length-limits.json');
+  try {
+    const content = await fs.readFile(limitsPath, 'utf-8');
+    return JSON.parse(content);
+  } catch (error) {
+    return {};
+  }
 }
 
-// --- PLACEHOLDER HANDLING LOGIC (from TranslationService.ts) ---
+// --- MAIN SCRIPT LOGIC ---
 
-function extractPlaceholders(text: string): { textWithMarkers: string; placeholderMap: Map<string, string> } {
-  const placeholderRegex = /\{\{?\w+\}?\}/g;
-  const placeholders = text.match(placeholderRegex) || [];
-  if (placeholders.length === 0) {
-    return { textWithMarkers: text, placeholderMap: new Map() };
-  }
-  let textWithMarkers = text;
-  const placeholderMap = new Map<string, string>();
-  placeholders.forEach((placeholder, index) => {
-    const marker = `XPLACEHOLDERX${index}XPLACEHOLDERX`;
-    placeholderMap.set(marker, placeholder);
-    textWithMarkers = textWithMarkers.replace(placeholder, ` ${marker} `);
-  });
-  return { textWithMarkers, placeholderMap };
+interface NamespaceJob {
+  namespace: string;
+  sourcePath: string;
+  outputDir: string;
+  sourceLanguage: string;
+  languages: string[];
+  /** Fallback chain of each language that is a variant of another one (e.g. `pt-BR` → `pt`). */
+  fallbacks: { [language: string]: string[] };
+  providerRouting: ProviderRouting;
 }
 
-function restorePlaceholders(translatedText: string, placeholderMap: Map<string, string>): string {
-  if (placeholderMap.size === 0) return translatedText;
-  let result = translatedText;
-  for (const [marker, placeholder] of placeholderMap.entries()) {
-    const markerVariations = [
-      marker, marker.toLowerCase(), marker.toUpperCase(), marker.replace(/X/g, 'x'),
-      marker.substring(0, marker.length - 1), marker.substring(1),
-    ];
-    for (const variation of markerVariations) {
-      const escapedMarker = variation.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-      const regex = new RegExp(`\\s*${escapedMarker}\\s*`, 'gi');
-      if (regex.test(result)) {
-        result = result.replace(regex, ` ${placeholder} `);
-        break;
-      }
-    }
-  }
-  return result.replace(/\s+/g, ' ').trim();
+interface SharedInputs {
+  overrides: OverrideConfig;
+  lengthLimits: LengthLimitConfig;
+  glossary: GlossaryConfig;
+  /** Shared by all namespaces, so the per-provider request cap holds for the whole run. */
+  scheduler: RequestScheduler;
+  /** Shared by all namespaces, so character budgets hold for the whole run. */
+  usage: UsageTracker;
+  /** Null when the translation memory is disabled. */
+  memory: TranslationMemory | null;
 }
 
-// --- UTILITY FUNCTIONS for nested JSON ---
-
-function flattenObject(obj: any, prefix: string = ''): { [key: string]: any } {
-  const result: { [key: string]: any } = {};
-
-  for (const key in obj) {
-    if (obj.hasOwnProperty(key)) {
-      const newKey = prefix ? `${prefix}.${key}` : key;
-      const value = obj[key];
-
-      // If it's a TranslationEntry, we treat it as a final value and don't flatten it further.
-      // Also, if it's not an object, treat it as a final value.
-      if (
-        isTranslationEntry(value) ||
-        typeof value !== 'object' ||
-        value === null ||
-        Array.isArray(value)
-      ) {
-        result[newKey] = value;
-      } else {
-        // Otherwise, it's a nested structure of more keys, so we recurse.
-        Object.assign(result, flattenObject(value, newKey));
-      }
-    }
-  }
-  return result;
+interface RunOptions {
+  /** Only report what would be translated; call no provider and write nothing. */
+  dryRun: boolean;
+  /** Print old and new values of every key whose published value changes. */
+  diff: boolean;
 }
 
-function unflattenObject(obj: { [key: string]: any }): any {
-  if (Object.keys(obj).length === 0) return {};
-  const result: any = {};
-
-  for (const key in obj) {
-    if (obj.hasOwnProperty(key)) {
-      const keys = key.split('.');
-      keys.reduce((acc, currentKey, index) => {
-        if (index === keys.length - 1) {
-          acc[currentKey] = obj[key];
-        } else {
-          acc[currentKey] = acc[currentKey] || {};
-        }
-        return acc[currentKey];
-      }, result);
-    }
-  }
-  return result;
+interface LanguageSummary {
+  language: string;
+  status: LanguageStatus;
+  /** Up-to-date strings kept from the cache. */
+  cached: number;
+  translated: number;
+  rejected: number;
+  /** Strings taken from the translation memory instead of a provider (included in `translated`). */
+  reused: number;
+  /** Strings whose published value is an override. */
+  overridden: number;
+  /** Translated strings per provider. */
+  providers: { [provider: string]: number };
+  /** Provider requests made for the language, including both hops of a pivot route. */
+  requests: ProviderRequest[];
+  /** Characters that would be sent to the first available provider of each hop (dry runs). */
+  estimates?: { provider: string; characters: number }[];
 }
 
-// --- Pre-processing Function ---
-function preprocessTextsForTranslation(texts: { key: string, text: string }[]): {
-  processedTexts: string[];
-  placeholderMaps: Map<string, string>[];
-} {
-  const processedTexts: string[] = [];
-  const placeholderMaps: Map<string, string>[] = [];
-  texts.forEach(item => {
-    const { textWithMarkers, placeholderMap } = extractPlaceholders(item.text);
-    processedTexts.push(textWithMarkers);
-    placeholderMaps.push(placeholderMap);
-  });
-  return { processedTexts, placeholderMaps };
+interface NamespaceSummary {
+  namespace: string;
+  sourceLanguage: string;
+  /** Strings in the source file. */
+  strings: number;
+  languages: LanguageSummary[];
+  validationIssues: ValidationIssue[];
+  /** Overrides skipped because their source text changed, as `lang/key`. */
+  staleOverrides: string[];
+  /** Published strings that are missing or were translated from an older source text, as `lang/key`. */
+  staleKeys: string[];
+  /** Set when the namespace could not be processed at all. Nothing was published then. */
+  error?: string;
 }
 
-// --- POST-PROCESSING FUNCTIONS ---
+/** CI deploys on 0, may choose to deploy on 2, and stops on 1. */
+const EXIT_CODES: { [status in BuildStatus]: number } = { complete: 0, failed: 1, degraded: 2 };
 
 /**
- * Removes trailing punctuation from translations if the source text doesn't have it.
- * This fixes cases where translation APIs add periods to short texts like "Tamam" -> "Okay."
+ * Reads the previously published translations for a namespace/language from CACHE_DIR.
+ * Returns an empty object when there is no cache.
  */
-function normalizeTranslationPunctuation(sourceText: string, translatedText: string): string {
-  // Trim whitespace to check actual content
-  const sourceTrimmed = sourceText.trim();
-  const translatedTrimmed = translatedText.trim();
-
-  if (sourceTrimmed.length === 0 || translatedTrimmed.length === 0) {
-    return translatedText; // Return original if empty
-  }
-
-  // Get the last character of source (ignoring trailing whitespace)
-  const sourceLastChar = sourceTrimmed[sourceTrimmed.length - 1];
-
-  // Check if source ends with punctuation
-  const sourceEndsWithPunctuation = sourceLastChar === '.' || sourceLastChar === '?' || sourceLastChar === '!' ||
-    sourceTrimmed.endsWith('...') || sourceTrimmed.endsWith('…');
-
-  // If source doesn't end with punctuation, remove it from translation
-  if (!sourceEndsWithPunctuation) {
-    // Remove trailing punctuation (period, exclamation, question mark, ellipsis)
-    let cleaned = translatedTrimmed;
-
-    // Remove trailing ellipsis first (longer patterns first)
-    cleaned = cleaned.replace(/\.\.\.\s*$/, '');
-    cleaned = cleaned.replace(/…\s*$/, '');
-
-    // Remove single trailing punctuation marks
-    cleaned = cleaned.replace(/[.!?]\s*$/, '');
-
-    // Preserve original trailing whitespace from translatedText if it existed
-    const trailingWhitespace = translatedText.match(/\s*$/)?.[0] || '';
-    return cleaned + trailingWhitespace;
-  }
-
-  // If source has punctuation, keep translation as is
-  return translatedText;
-}
-
-// --- API HELPER FUNCTIONS ---
-
-async function translateWithDeepL(texts: { key: string, text: string }[], targetLang: string, sourceLang: string): Promise<string[] | null> {
-  if (!DEEPL_API_KEY) {
-    console.warn('DeepL API key is missing. Cannot use DeepL service.');
-    return null;
-  }
-
-  const { processedTexts, placeholderMaps } = preprocessTextsForTranslation(texts);
-
-  const formData = new URLSearchParams();
-  // formData.append('auth_key', DEEPL_API_KEY);
-  formData.append('source_lang', sourceLang.toUpperCase());
-
-  let deepLTargetLang = targetLang.toUpperCase();
-  if (targetLang.toLowerCase() === 'en') deepLTargetLang = 'EN-US';
-  if (targetLang.toLowerCase() === 'pt') deepLTargetLang = 'PT-PT';
-  formData.append('target_lang', deepLTargetLang);
-
-  processedTexts.forEach(text => formData.append('text', text));
-
+async function loadCachedTranslations(namespace: string, lang: string): Promise<{ [key: string]: TranslationEntry }> {
+  if (!CACHE_DIR) return {};
+  const cacheFilePath = path.resolve(CACHE_DIR, namespace, `${lang}.json`);
   try {
-    const response = await axios.post(DEEPL_API_URL_FREE, formData.toString(), {
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'User-Agent': 'PhotoApp/1.0',
-        'Authorization': `DeepL-Auth-Key ${DEEPL_API_KEY}`,
-      },
-      timeout: 30000,
-    });
-    const translatedTexts = response.data.translations.map((t: any) => t.text);
-    return translatedTexts.map((text: string, index: number) => {
-      const restored = restorePlaceholders(text, placeholderMaps[index]);
-      return normalizeTranslationPunctuation(texts[index].text, restored);
-    });
+    const cachedContent = await fs.readFile(cacheFilePath, 'utf-8');
+    console.log(`   - Found cached translations for ${lang.toUpperCase()}.`);
+    return flattenObject(JSON.parse(cachedContent));
   } catch (error) {
-    if (axios.isAxiosError(error) && error.response) {
-      if (error.response.status === 456 || error.response.status === 429) {
-        console.warn(`DeepL quota exceeded (HTTP ${error.response.status}). Will attempt fallback.`);
-      } else {
-        console.error(`DeepL API Error: ${error.response.status} - ${JSON.stringify(error.response.data, null, 2)}`);
-      }
-    } else {
-      console.error('An unknown error occurred in translateWithDeepL:', error);
-    }
-    return null;
+    console.log(`   - No cache file found for ${lang.toUpperCase()}. Will perform a full translation.`);
+    return {};
   }
 }
 
-async function translateWithGoogle(texts: { key: string, text: string }[], targetLang: string, sourceLang: string): Promise<string[] | null> {
-  if (!GOOGLE_API_KEY) {
-    console.warn('Google API key is missing. Cannot use Google Translate service.');
-    return null;
-  }
-
-  const { processedTexts, placeholderMaps } = preprocessTextsForTranslation(texts);
-  const textOnlyArray = processedTexts;
-
-  try {
-    const response = await axios.post(`${GOOGLE_API_URL}?key=${GOOGLE_API_KEY}`, {
-      q: textOnlyArray,
-      source: sourceLang,
-      target: targetLang,
-      format: 'text',
-    }, {
-      timeout: 30000,
-    });
-
-    const translatedTexts = response.data.data.translations.map((t: any) => t.translatedText);
-    return translatedTexts.map((text: string, index: number) => {
-      const restored = restorePlaceholders(text, placeholderMaps[index]);
-      return normalizeTranslationPunctuation(texts[index].text, restored);
-    });
-  } catch (error) {
-    if (axios.isAxiosError(error) && error.response) {
-      const errorMessage = error.response.data?.error?.message || JSON.stringify(error.response.data);
-      console.error(`Google Translate API Error: ${error.response.status} - ${errorMessage}`);
-    } else {
-      console.error('An unknown error occurred in translateWithGoogle:', error);
-    }
-    return null;
-  }
+function reportStaleOverrides(summary: NamespaceSummary, lang: string, staleKeys: string[]): void {
+  if (staleKeys.length === 0) return;
+  console.warn(`   - WARNING: ${staleKeys.length} override(s) were written for an older source text and were not applied: ${staleKeys.join(', ')}`);
+  summary.staleOverrides.push(...staleKeys.map(key => `${lang}/${key}`));
 }
 
-// --- OVERRIDE SYSTEM ---
-
-interface OverrideConfig {
-  [namespace: string]: {
-    [language: string]: {
-      [key: string]: string;
-    };
-  };
+interface MachineTranslation {
+  /** One entry per input text; null when no provider produced a valid translation. */
+  translations: (string | null)[];
+  /** Provider of each accepted translation. */
+  providers: (string | null)[];
+  issues: ValidationIssue[];
 }
 
 /**
- * Loads translation overrides from the source/translation-overrides.json file.
- * Returns an empty object if the file doesn't exist or can't be parsed.
+ * Sends texts through a provider chain. ICU plural/select messages are split into their
+ * literal branches for the target language and assembled again. The provider requests
+ * are added to `requests`. Returns null when no provider was usable for the language.
  */
-async function loadOverrides(): Promise<OverrideConfig> {
-  const overridePath = path.resolve(__dirname, '../source/translation-overrides.json');
-  try {
-    const content = await fs.readFile(overridePath, 'utf-8');
-    return JSON.parse(content);
-  } catch (error) {
-    // File doesn't exist or can't be parsed - that's okay, just return empty config
-    return {};
-  }
+async function machineTranslate(
+  texts: TextToTranslate[],
+  sourceLang: string,
+  targetLang: string,
+  chain: TranslationProvider[],
+  shared: SharedInputs,
+  requests: ProviderRequest[]
+): Promise<MachineTranslation | null> {
+  const icuExpansion = expandIcuForTranslation(texts, targetLang);
+  const glossary = resolveGlossary(shared.glossary, sourceLang, targetLang);
+  const result = await translateWithFallback(
+    chain,
+    icuExpansion.units,
+    targetLang,
+    sourceLang,
+    { glossary: isGlossaryEmpty(glossary) ? undefined : glossary, scheduler: shared.scheduler, usage: shared.usage }
+  );
+  if (!result) return null;
+  requests.push(...result.requests);
+
+  // ICU messages are attributed to the provider of their first branch.
+  const unitProviders = new Map(icuExpansion.units.map((unit, index) => [unit.key, result.providers[index]]));
+  return {
+    translations: icuExpansion.assemble(result.translations),
+    providers: texts.map(({ key }) => unitProviders.get(key) ?? unitProviders.get(`${key}#0`) ?? null),
+    issues: result.issues,
+  };
 }
 
 /**
- * Applies overrides to the final translations for a specific namespace and language.
- * Returns the number of overrides applied.
+ * Up-to-date translations in the pivot language, used as the second hop's input when
+ * the route prefers reviewed output. Null entries still need the first hop.
  */
-function applyOverrides(
-  translations: { [key: string]: TranslationEntry | any },
-  overrides: OverrideConfig,
-  namespace: string,
-  language: string,
-  sourceTexts: { [key: string]: any }
-): number {
-  const namespaceOverrides = overrides[namespace];
-  if (!namespaceOverrides) return 0;
-
-  const langOverrides = namespaceOverrides[language];
-  if (!langOverrides) return 0;
-
-  let appliedCount = 0;
-
-  for (const [key, overrideTranslation] of Object.entries(langOverrides)) {
-    if (translations[key] !== undefined) {
-      const sourceText = sourceTexts[key];
-      if (typeof sourceText === 'string') {
-        // Apply override and recalculate hash based on the SOURCE text (not the override)
-        translations[key] = {
-          translation: overrideTranslation,
-          sourceHash: md5(sourceText),
-        };
-        appliedCount++;
-      }
-    }
-  }
-
-  return appliedCount;
+function reviewedPivotTexts(texts: TextToTranslate[], pivotTranslations: { [key: string]: any } | undefined): (string | null)[] {
+  return texts.map(({ key, text }) => {
+    const entry = pivotTranslations?.[key];
+    return isTranslationEntry(entry) && entry.sourceHash === md5(text) ? entry.translation : null;
+  });
 }
 
-// --- MAIN SCRIPT LOGIC ---
-
-
 /**
- * Detects the source language from the filename.
- * If filename contains a language code before .json (e.g., filters.en.json), uses that.
- * Otherwise, returns the default base language (Turkish).
+ * Translates into the pivot language, then from the pivot language into the target.
+ * Texts whose first hop fails get no translation. Providers are recorded as `name@pivot`.
  */
-function detectSourceLanguage(sourceFilePath: string): string {
-  const filename = path.basename(sourceFilePath);
-  // Match pattern: filename.LANGCODE.json (e.g., filters.en.json)
-  const match = filename.match(/\.(\w{2})(\.json)$/);
-
-  if (match && match[1]) {
-    const detectedLang = match[1].toLowerCase();
-    // Verify it's a valid language code from our supported list
-    if (ALL_SUPPORTED_LANGUAGES.includes(detectedLang)) {
-      return detectedLang;
-    }
+async function translateViaPivot(
+  texts: TextToTranslate[],
+  sourceLang: string,
+  targetLang: string,
+  pivot: PivotRoute,
+  chains: { first: TranslationProvider[]; second: TranslationProvider[] },
+  pivotTranslations: { [key: string]: any } | undefined,
+  shared: SharedInputs,
+  requests: ProviderRequest[]
+): Promise<MachineTranslation | null> {
+  const pivotTexts = pivot.source === 'reviewed' ? reviewedPivotTexts(texts, pivotTranslations) : texts.map(() => null);
+  const issues: ValidationIssue[] = [];
+
+  const firstHop = texts.map((_, index) => index).filter(index => pivotTexts[index] === null);
+  if (firstHop.length < texts.length) {
+    console.log(`   - Starting ${texts.length - firstHop.length} string(s) from the reviewed ${pivot.via.toUpperCase()} translation.`);
+  }
+  if (firstHop.length > 0) {
+    console.log(`   - Pivot: translating ${firstHop.length} string(s) into ${pivot.via.toUpperCase()} first.`);
+    const first = await machineTranslate(firstHop.map(index => texts[index]), sourceLang, pivot.via, chains.first, shared, requests);
+    first?.translations.forEach((translation, index) => { pivotTexts[firstHop[index]] = translation; });
+    issues.push(...first?.issues ?? []);
   }
 
-  return DEFAULT_BASE_LANGUAGE;
+  const secondHop = texts.map((_, index) => index).filter(index => pivotTexts[index] !== null);
+  if (secondHop.length === 0) return null;
+  console.log(`   - Pivot: translating ${secondHop.length} string(s) from ${pivot.via.toUpperCase()} to ${targetLang.toUpperCase()}.`);
+  const second = await machineTranslate(
+    secondHop.map(index => ({ ...texts[index], text: pivotTexts[index]! })),
+    pivot.via,
+    targetLang,
+    chains.second,
+    shared,
+    requests
+  );
+  if (!second) return null;
+
+  const result: MachineTranslation = {
+    translations: texts.map(() => null),
+    providers: texts.map(() => null),
+    issues: [...issues, ...second.issues],
+  };
+  secondHop.forEach((textIndex, index) => {
+    result.translations[textIndex] = second.translations[index];
+    result.providers[textIndex] = second.providers[index] && `${second.providers[index]}@${pivot.via}`;
+  });
+  return result;
 }
 
-async function run() {
-  const argv = await yargs(hideBin(process.argv))
-    .option('source', { alias: 's', type: 'string', description: 'Source JSON file path', demandOption: true })
-    .option('output', { alias: 'o', type: 'string', description: 'Base output directory for translated files', demandOption: true })
-    .option('languages', {
-      alias: 'l',
-      type: 'string',
-      description: 'Optional: Comma-separated list of target language codes (e.g., en,de,az). If not provided, all supported languages will be translated.',
-    })
-    .help().argv;
+/** Source keys in order, followed by cached keys that were removed from the source. */
+function unionKeys(sourceKeys: string[], cachedTranslations: { [key: string]: any }): string[] {
+  return [...new Set([...sourceKeys, ...Object.keys(cachedTranslations)])];
+}
 
-  // Detect source language from filename
-  const BASE_LANGUAGE = detectSourceLanguage(argv.source);
+/**
+ * Translates one namespace into every target language and writes `<outputDir>/<lang>.json`.
+ * Files are written to a staging copy of the output directory, checked against the source
+ * and swapped in together. With `dryRun`, only reports what would change. Never throws:
+ * unexpected errors are recorded on the returned summary and nothing is published.
+ */
+async function translateNamespace(job: NamespaceJob, shared: SharedInputs, options: RunOptions): Promise<NamespaceSummary> {
+  const { namespace, sourceLanguage: BASE_LANGUAGE, providerRouting } = job;
+  const summary: NamespaceSummary = {
+    namespace,
+    sourceLanguage: BASE_LANGUAGE,
+    strings: 0,
+    languages: [],
+    validationIssues: [],
+    staleOverrides: [],
+    staleKeys: [],
+  };
+  const providers = createProviders(providerRouting);
 
-  const namespace = path.basename(argv.output);
-  console.log(`\n--- Starting translation process for namespace: ${namespace} ---`);
-  console.log(`   - Source File: ${argv.source}`);
+  console.log(`\n--- Starting ${options.dryRun ? 'dry run' : 'translation process'} for namespace: ${namespace} ---`);
+  console.log(`   - Source File: ${job.sourcePath}`);
   console.log(`   - Source Language: ${BASE_LANGUAGE.toUpperCase()}`);
-  console.log(`   - Output Dir:  ${argv.output}`);
+  console.log(`   - Output Dir:  ${job.outputDir}`);
   if (CACHE_DIR) {
     console.log(`   - Cache Dir:   ${CACHE_DIR}`);
   } else {
     console.log(`   - Cache Dir:   Not provided. Full translation will be performed.`);
   }
+  console.log(`   - Providers:   ${providerRouting.default.join(' -> ')}`);
+  const pivotRoutes = job.languages
+    .map(lang => ({ lang, pivot: resolvePivotRoute(BASE_LANGUAGE, lang, providerRouting) }))
+    .filter((route): route is { lang: string; pivot: PivotRoute } => route.pivot !== null);
+  if (pivotRoutes.length > 0) {
+    const routes = pivotRoutes.map(({ lang, pivot }) => `${lang} via ${pivot.via}${pivot.source === 'reviewed' ? ' (reviewed)' : ''}`);
+    console.log(`   - Pivots:      ${routes.join(', ')}`);
+  }
 
+  let staging: StagingDir | null = null;
   try {
-    const sourceContent = await fs.readFile(argv.source, 'utf-8');
+    const sourceContent = await fs.readFile(job.sourcePath, 'utf-8');
     const sourceJson = JSON.parse(sourceContent);
     const flatSourceJson = flattenObject(sourceJson);
+    const keyContexts = extractKeyContexts(sourceJson);
     const sourceKeys = Object.keys(flatSourceJson);
-
-    // Load translation overrides
-    const overrides = await loadOverrides();
-
-    const targetLanguages = argv.languages ? argv.languages.split(',') : ALL_SUPPORTED_LANGUAGES;
+    summary.strings = sourceKeys.filter(key => typeof flatSourceJson[key] === 'string').length;
+
+    const { overrides } = shared;
+    const lengthLimits = shared.lengthLimits[namespace] || {};
+    // Pivot languages and variant parents go first, so the languages that depend on them
+    // can start from (or be compared with) their output.
+    const prerequisites = new Set([
+      ...pivotRoutes.map(({ pivot }) => pivot.via.toLowerCase()),
+      ...Object.values(job.fallbacks).flat().map(lang => lang.toLowerCase()),
+    ]);
+    const targetLanguages = [
+      ...job.languages.filter(lang => prerequisites.has(lang.toLowerCase())),
+      ...job.languages.filter(lang => !prerequisites.has(lang.toLowerCase())),
+    ];
+    // Final (overridden) translations built in this run, by language. Complete for variants too.
+    const builtTranslations = new Map<string, { [key: string]: any }>();
 
     console.log(`   - Languages:   ${targetLanguages.join(', ')}`);
 
+    if (!options.dryRun) staging = await createStagingDir(job.outputDir);
+    const writeDir = staging?.dir ?? job.outputDir;
+    // Files written in this run, checked before the staging directory is published.
+    const writtenFiles: { lang: string; filePath: string; inheritedKeys?: InheritedKeys }[] = [];
+
     for (const lang of targetLanguages) {
-      const outputPath = path.resolve(argv.output, `${lang}.json`);
-      const outputDir = path.dirname(outputPath);
-      await fs.mkdir(outputDir, { recursive: true });
+      const outputPath = path.resolve(writeDir, `${lang}.json`);
 
       // --- BASE LANGUAGE HANDLING ---
-      if (lang.toLowerCase() === BASE_LANGUAGE) {
+      if (lang === BASE_LANGUAGE) {
         console.log(`\nHandling base language ${lang.toUpperCase()}...`);
         const baseLangTranslations: { [key: string]: TranslationEntry } = {};
         sourceKeys.forEach(key => {
@@ -414,43 +359,70 @@ async function run() {
             sourceHash: md5(sourceText),
           };
         });
-        const overridesApplied = applyOverrides(
+        const overrideResult = applyOverrides(
           baseLangTranslations,
           overrides,
           namespace,
           lang,
           flatSourceJson
         );
-        if (overridesApplied > 0) {
-          console.log(`   - Applied ${overridesApplied} translation override(s) (base language)`);
+        if (overrideResult.applied > 0) {
+          console.log(`   - Applied ${overrideResult.applied} translation override(s) (base language)`);
         }
+        reportStaleOverrides(summary, lang, overrideResult.stale);
+        builtTranslations.set(lang, baseLangTranslations);
+        if (options.diff) {
+          const cachedBase = await loadCachedTranslations(namespace, lang);
+          printDiff(cachedBase, baseLangTranslations, unionKeys(sourceKeys, cachedBase));
+        }
+        summary.languages.push({
+          language: lang,
+          status: 'base',
+          cached: 0,
+          translated: 0,
+          rejected: 0,
+          reused: 0,
+          overridden: overrideResult.applied,
+          providers: {},
+          requests: [],
+        });
+        if (options.dryRun) continue;
+
         const finalBaseLangJson = unflattenObject(baseLangTranslations);
         await fs.writeFile(outputPath, JSON.stringify(finalBaseLangJson, null, 2), 'utf-8');
-        console.log(`Successfully created and saved base language file with hashes to ${outputPath}`);
+        writtenFiles.push({ lang, filePath: outputPath });
+        console.log(`Successfully created and staged base language file ${lang}.json with hashes`);
         continue;
       }
 
-      console.log(`\nTranslating to ${lang.toUpperCase()}...`);
+      console.log(`\n${options.dryRun ? 'Checking' : 'Translating to'} ${lang.toUpperCase()}...`);
+
+      // Pseudo-locale output is generated, not worth remembering.
+      const memory = isPseudoLocale(lang) ? null : shared.memory;
 
       // --- HASH-BASED CHANGE DETECTION ---
-      let cachedTranslations: { [key: string]: TranslationEntry } = {};
-      const cacheFilePath = CACHE_DIR ? path.resolve(CACHE_DIR, namespace, `${lang}.json`) : null;
-
-      if (cacheFilePath) {
-        try {
-          const cachedContent = await fs.readFile(cacheFilePath, 'utf-8');
-          cachedTranslations = flattenObject(JSON.parse(cachedContent));
-          console.log(`   - Found cached translations for ${lang.toUpperCase()}.`);
-        } catch (error) {
-          console.log(`   - No cache file found for ${lang.toUpperCase()}. Will perform a full translation.`);
-        }
+      const fallbackChain = job.fallbacks[lang] ?? [];
+      const inherited = fallbackChain.length > 0
+        ? await loadInheritedTranslations(fallbackChain, async parent => builtTranslations.get(parent) ?? loadCachedTranslations(namespace, parent))
+        : null;
+      if (inherited) {
+        console.log(`   - Variant of ${fallbackChain.join(' -> ')}: only keys that differ are written.`);
       }
+      // A variant's published file omits what it inherits, so compare against both.
+      const cachedTranslations = {
+        ...(inherited ? confirmedInheritance(inherited, await loadInheritedKeys(CACHE_DIR, namespace, lang)) : {}),
+        ...await loadCachedTranslations(namespace, lang),
+      };
 
       const keysToTranslate: string[] = [];
-      const textsToTranslate: { key: string, text: string }[] = [];
+      const textsToTranslate: TextToTranslate[] = [];
       // Start with all cached translations. If a key is updated, it will be overwritten.
       // This ensures that if translation fails, we still have the old values.
-      const finalTranslations: { [key: string]: TranslationEntry | any } = { ...cachedTranslations };
+      // Overrides are applied again below, so start from the machine translations.
+      const machineTranslations = await loadMachineTranslations(CACHE_DIR, namespace, lang, cachedTranslations);
+      const finalTranslations: { [key: string]: TranslationEntry | any } = restoreMachineTranslations(cachedTranslations, machineTranslations);
+      const langOverrides = overrides[namespace]?.[lang] ?? {};
+      const offlineKeys = await loadOfflineKeys(CACHE_DIR, namespace, lang);
 
       sourceKeys.forEach(key => {
         const sourceText = flatSourceJson[key];
@@ -465,76 +437,155 @@ async function run() {
 
         // We check if the cached entry is a valid TranslationEntry object.
         // If the source text has changed (different hash) or the key is new, translate it.
-        if (!isTranslationEntry(cachedEntry) || cachedEntry.sourceHash !== sourceHash) {
+        // Overridden entries published without their machine translation are translated
+        // once more, so `lint` can tell whether the override still changes anything.
+        const lostMachineTranslation = langOverrides[key] !== undefined && isTranslationEntry(cachedEntry) &&
+          machineTranslations[key]?.sourceHash !== cachedEntry.sourceHash;
+        if (!isTranslationEntry(cachedEntry) || cachedEntry.sourceHash !== sourceHash || lostMachineTranslation) {
           keysToTranslate.push(key);
-          textsToTranslate.push({ key, text: sourceText });
+          const context = keyContexts[key];
+          // Pseudo-locales are meant to overflow, so length limits don't apply to them.
+          const maxLength = isPseudoLocale(lang) ? undefined : context?.maxLength ?? lengthLimits[key];
+          textsToTranslate.push({ key, text: sourceText, maxLength, context });
         } else {
           // The source text hasn't changed, so we keep the existing entry.
           // This is already handled by initializing finalTranslations with cachedTranslations.
         }
       });
 
+      const languageSummary: LanguageSummary = {
+        language: lang,
+        status: 'up-to-date',
+        cached: summary.strings - textsToTranslate.length,
+        translated: 0,
+        rejected: 0,
+        reused: 0,
+        overridden: 0,
+        providers: {},
+        requests: [],
+      };
+      summary.languages.push(languageSummary);
+      let providerTexts: TextToTranslate[] = [];
+
       if (textsToTranslate.length === 0) {
         console.log(`All keys are up-to-date for ${lang.toUpperCase()}. Nothing to do.`);
-
-        // --- APPLY OVERRIDES (even when no new translations) ---
-        const overridesApplied = applyOverrides(finalTranslations, overrides, namespace, lang, flatSourceJson);
-        if (overridesApplied > 0) {
-          console.log(`   - Applied ${overridesApplied} translation override(s)`);
+      } else {
+        console.log(`   - Found ${textsToTranslate.length} new or updated string(s) to translate.`);
+
+        // --- TRANSLATION MEMORY ---
+        // Texts translated before (in any namespace or under another key) are reused as they are.
+        providerTexts = textsToTranslate.filter(({ key, text, maxLength }) => {
+          const remembered = memory?.lookup(BASE_LANGUAGE, lang, text);
+          if (!remembered || validateTranslation(text, remembered.translation, maxLength).length > 0) return true;
+          finalTranslations[key] = { translation: remembered.translation, sourceHash: md5(text) };
+          delete offlineKeys[key];
+          languageSummary.reused++;
+          return false;
+        });
+        if (languageSummary.reused > 0) {
+          console.log(`   - Reusing ${languageSummary.reused} string(s) from the translation memory.`);
         }
+        languageSummary.translated = languageSummary.reused;
+        languageSummary.status = options.dryRun ? 'planned' : 'translated';
+      }
 
-        const finalOrderedFlatJson: { [key: string]: any } = {};
-        sourceKeys.forEach(key => {
-          if (finalTranslations[key] !== undefined) {
-            finalOrderedFlatJson[key] = finalTranslations[key];
+      if (providerTexts.length > 0) {
+        const pivot = resolvePivotRoute(BASE_LANGUAGE, lang, providerRouting);
+        const providerChain = resolveProviderChain(lang, providerRouting, providers, BASE_LANGUAGE);
+        const pivotChains = pivot ? resolvePivotChains(pivot, BASE_LANGUAGE, lang, providerRouting, providers) : null;
+        // Keys sharing a source text (and length limit and context) are translated once.
+        const uniqueIds = new Map<string, number>();
+        const uniqueTexts: TextToTranslate[] = [];
+        const slots = providerTexts.map(item => {
+          const id = `${item.text}\u0000${item.maxLength ?? ''}\u0000${JSON.stringify(item.context ?? {})}`;
+          if (!uniqueIds.has(id)) {
+            uniqueIds.set(id, uniqueTexts.length);
+            uniqueTexts.push(item);
           }
+          return uniqueIds.get(id)!;
         });
-        const finalNestedJson = unflattenObject(finalOrderedFlatJson);
-        await fs.writeFile(outputPath, JSON.stringify(finalNestedJson, null, 2), 'utf-8');
-        continue;
-      }
-
-      console.log(`   - Found ${textsToTranslate.length} new or updated string(s) to translate.`);
-      let translatedTexts: string[] | null = null;
-
-      // --- API CALLS ---
-      if (DEEPL_SUPPORTED_TARGET_LANGS.has(lang.toLowerCase())) {
-        console.log(`   - Using primary service: DeepL`);
-        translatedTexts = await translateWithDeepL(textsToTranslate, lang, BASE_LANGUAGE);
-
-        if (!translatedTexts && GOOGLE_API_KEY) {
-          console.log(`   - DeepL failed. Using fallback service: Google Cloud Translate`);
-          translatedTexts = await translateWithGoogle(textsToTranslate, lang, BASE_LANGUAGE);
-        }
-      } else {
-        if (GOOGLE_API_KEY) {
-          console.log(`   - Language '${lang}' not directly supported by DeepL. Using Google Cloud Translate.`);
-          translatedTexts = await translateWithGoogle(textsToTranslate, lang, BASE_LANGUAGE);
+        // Reviewed pivot translations come from this run, or else from the published files.
+        const pivotTranslations = pivot?.source === 'reviewed'
+          ? builtTranslations.get(pivot.via) ?? await loadCachedTranslations(namespace, pivot.via)
+          : undefined;
+
+        if (options.dryRun) {
+          // DeepL bills per source character, so count what would actually be sent.
+          const estimate = (chain: TranslationProvider[], texts: TextToTranslate[], targetLang: string) => {
+            const provider = chain.find(candidate => candidate.isConfigured()) ?? chain[0];
+            const units = expandIcuForTranslation(texts, targetLang).units;
+            return { provider: provider?.name ?? 'none', characters: units.reduce((total, unit) => total + unit.text.length, 0) };
+          };
+          if (pivot && pivotChains) {
+            // The second hop is estimated from the source texts.
+            const reviewed = pivot.source === 'reviewed' ? reviewedPivotTexts(uniqueTexts, pivotTranslations) : [];
+            const firstHop = uniqueTexts.filter((_, index) => !reviewed[index]);
+            languageSummary.estimates = [
+              ...(firstHop.length > 0 ? [estimate(pivotChains.first, firstHop, pivot.via)] : []),
+              estimate(pivotChains.second, uniqueTexts, lang),
+            ];
+          } else {
+            languageSummary.estimates = [estimate(providerChain, uniqueTexts, lang)];
+          }
+          languageSummary.status = 'planned';
+          languageSummary.estimates.forEach(({ provider, characters }) =>
+            console.log(`   - Would send ~${characters} character(s) to ${provider}.`)
+          );
         } else {
-          console.warn(`   - SKIPPING ${lang.toUpperCase()}: Language not supported by DeepL and no Google API key is available.`);
+          // --- API CALLS ---
+          const result = pivot && pivotChains
+            ? await translateViaPivot(uniqueTexts, BASE_LANGUAGE, lang, pivot, pivotChains, pivotTranslations, shared, languageSummary.requests)
+            : await machineTranslate(uniqueTexts, BASE_LANGUAGE, lang, providerChain, shared, languageSummary.requests);
+          result?.issues.forEach(issue => summary.validationIssues.push({ ...issue, namespace, language: lang }));
+          languageSummary.status = 'failed';
+
+          if (!result) {
+            console.error(`   - FATAL: Could not generate translation for ${lang.toUpperCase()}. Reverting to cached versions for affected keys.`);
+            // The finalTranslations object already contains the old cached values,
+            // so no specific action is needed here. The script will proceed to write
+            // the file with the old data for the keys that failed.
+          } else {
+            // --- MERGE RESULTS ---
+            // Strings rejected by the validation gate keep their cached value (if any).
+            const rejectedKeys: string[] = [];
+            providerTexts.forEach(({ key, text }, index) => {
+              const translation = result.translations[slots[index]];
+              if (translation === null) {
+                rejectedKeys.push(key);
+                return;
+              }
+              finalTranslations[key] = {
+                translation,
+                sourceHash: md5(text),
+              };
+              const provider = result.providers[slots[index]] ?? 'unknown';
+              languageSummary.providers[provider] = (languageSummary.providers[provider] ?? 0) + 1;
+              // Mock and pseudo output would otherwise be reused by later real runs.
+              if (isOfflineProvider(provider)) {
+                offlineKeys[key] = md5(text);
+              } else {
+                delete offlineKeys[key];
+                memory?.add(BASE_LANGUAGE, lang, text, translation, result.providers[slots[index]]);
+              }
+            });
+            if (rejectedKeys.length > 0) {
+              console.warn(`   - ${rejectedKeys.length} string(s) failed validation with every provider and kept their cached value: ${rejectedKeys.join(', ')}`);
+            }
+            languageSummary.translated += providerTexts.length - rejectedKeys.length;
+            languageSummary.rejected = rejectedKeys.length;
+            languageSummary.status = rejectedKeys.length > 0 ? 'partial' : 'translated';
+          }
         }
       }
 
-      if (!translatedTexts) {
-        console.error(`   - FATAL: Could not generate translation for ${lang.toUpperCase()}. Reverting to cached versions for affected keys.`);
-        // The finalTranslations object already contains the old cached values,
-        // so no specific action is needed here. The script will proceed to write
-        // the file with the old data for the keys that failed.
-      } else {
-        // --- MERGE RESULTS ---
-        textsToTranslate.forEach(({ key, text }, index) => {
-          finalTranslations[key] = {
-            translation: translatedTexts[index],
-            sourceHash: md5(text),
-          };
-        });
-      }
-
       // --- APPLY OVERRIDES ---
-      const overridesApplied = applyOverrides(finalTranslations, overrides, namespace, lang, flatSourceJson);
-      if (overridesApplied > 0) {
-        console.log(`   - Applied ${overridesApplied} translation override(s)`);
+      const beforeOverrides = { ...finalTranslations };
+      const overrideResult = applyOverrides(finalTranslations, overrides, namespace, lang, flatSourceJson);
+      if (overrideResult.applied > 0) {
+        console.log(`   - Applied ${overrideResult.applied} translation override(s)`);
       }
+      languageSummary.overridden = overrideResult.applied;
+      reportStaleOverrides(summary, lang, overrideResult.stale);
 
       const finalOrderedFlatJson: { [key: string]: any } = {};
       sourceKeys.forEach(key => {
@@ -542,11 +593,438 @@ async function run() {
           finalOrderedFlatJson[key] = finalTranslations[key];
         }
       });
+      builtTranslations.set(lang, finalOrderedFlatJson);
+      const variant = inherited ? omitInherited(finalOrderedFlatJson, inherited) : null;
 
-      const finalNestedJson = unflattenObject(finalOrderedFlatJson);
+      if (options.dryRun) {
+        printChanges({
+          ...classifyChanges(keysToTranslate, cachedTranslations, sourceKeys),
+          overridden: changedKeys(beforeOverrides, finalTranslations, Object.keys(langOverrides)),
+        });
+      }
+      if (options.diff) {
+        const pending = options.dryRun
+          ? Object.fromEntries(providerTexts.map(({ key, text }) => [key, text]))
+          : {};
+        printDiff(cachedTranslations, finalOrderedFlatJson, unionKeys(sourceKeys, cachedTranslations), pending);
+      }
+      if (options.dryRun) continue;
+
+      if (variant) {
+        const inheritedPath = path.resolve(writeDir, `${lang}${INHERITED_KEYS_SUFFIX}`);
+        await fs.writeFile(inheritedPath, JSON.stringify(variant.inheritedKeys, null, 2), 'utf-8');
+        console.log(`   - ${Object.keys(variant.inheritedKeys).length} key(s) match ${fallbackChain[0].toUpperCase()} and are left to the fallback.`);
+      }
+      const published = variant ? variant.own : finalOrderedFlatJson;
+      const finalNestedJson = unflattenObject(published);
 
       await fs.writeFile(outputPath, JSON.stringify(finalNestedJson, null, 2), 'utf-8');
-      console.log(`Successfully updated and saved translation to ${outputPath}`);
+      writtenFiles.push({ lang, filePath: outputPath, inheritedKeys: variant?.inheritedKeys });
+      // The staging copy may hold the sidecar of an earlier run, for overrides removed since.
+      const machinePath = path.resolve(writeDir, `${lang}${MACHINE_TRANSLATIONS_SUFFIX}`);
+      if (Object.keys(overrideResult.machineTranslations).length > 0) {
+        await fs.writeFile(machinePath, JSON.stringify(overrideResult.machineTranslations, null, 2), 'utf-8');
+      } else {
+        await fs.rm(machinePath, { force: true });
+      }
+      // Only entries still published as the offline provider produced them stay listed.
+      const offlinePath = path.resolve(writeDir, `${lang}${OFFLINE_KEYS_SUFFIX}`);
+      const publishedOfflineKeys = Object.fromEntries(Object.entries(offlineKeys).filter(([key, sourceHash]) =>
+        isTranslationEntry(published[key]) && published[key].sourceHash === sourceHash
+      ));
+      if (Object.keys(publishedOfflineKeys).length > 0) {
+        await fs.writeFile(offlinePath, JSON.stringify(publishedOfflineKeys, null, 2), 'utf-8');
+      } else {
+        await fs.rm(offlinePath, { force: true });
+      }
+      console.log(`Successfully updated and staged ${lang}.json`);
+    }
+
+    // --- OUTPUT CHECKS & PUBLISH ---
+    if (staging) {
+      const errors: string[] = [];
+      for (const file of writtenFiles) {
+        const check = await checkTranslationFile(file.filePath, flatSourceJson, file.inheritedKeys);
+        errors.push(...check.errors);
+        summary.staleKeys.push(...check.staleKeys.map(key => `${file.lang}/${key}`));
+      }
+      if (errors.length > 0) {
+        errors.forEach(error => console.error(`   - ${error}`));
+        throw new Error(`${errors.length} output check(s) failed`);
+      }
+      await publishStagingDir(staging);
+      staging = null;
+      console.log(`\nPublished ${writtenFiles.length} file(s) to ${job.outputDir}`);
+    }
+
+  } catch (error) {
+    console.error(`\nAn error occurred while translating namespace ${namespace}:`, (error as Error).message);
+    if (staging) {
+      console.error(`   - Nothing was published; ${job.outputDir} was left unchanged.`);
+      await discardStagingDir(staging).catch(() => undefined);
+    }
+    summary.error = (error as Error).message;
+  }
+
+  return summary;
+}
+
+function printSummary(summaries: NamespaceSummary[], dryRun: boolean): void {
+  console.log('\n--- Summary ---');
+  for (const summary of summaries) {
+    if (summary.error) {
+      console.log(`   - ${summary.namespace}: FAILED (${summary.error})`);
+      continue;
+    }
+    const translated = summary.languages.reduce((total, lang) => total + lang.translated, 0);
+    const rejected = summary.languages.reduce((total, lang) => total + lang.rejected, 0);
+    const reused = summary.languages.reduce((total, lang) => total + lang.reused, 0);
+    const failed = summary.languages.filter(lang => lang.status === 'failed').map(lang => lang.language.toUpperCase());
+    const planned = summary.languages.filter(lang => lang.status === 'planned').map(lang => lang.language.toUpperCase());
+    console.log(
+      `   - ${summary.namespace} (${summary.sourceLanguage.toUpperCase()}): ${summary.languages.length} language(s), ` +
+      (dryRun
+        ? (planned.length > 0 ? `would translate: ${planned.join(', ')}` : 'up-to-date')
+        : `${translated} string(s) translated${reused > 0 ? ` (${reused} from memory)` : ''}, ${rejected} rejected`) +
+      (failed.length > 0 ? `, failed: ${failed.join(', ')}` : '') +
+      (summary.staleOverrides.length > 0 ? `, ${summary.staleOverrides.length} stale override(s)` : '')
+    );
+  }
+  if (!dryRun) return;
+
+  const charactersByProvider = new Map<string, number>();
+  for (const lang of summaries.flatMap(summary => summary.languages)) {
+    for (const { provider, characters } of lang.estimates ?? []) {
+      charactersByProvider.set(provider, (charactersByProvider.get(provider) ?? 0) + characters);
+    }
+  }
+  if (charactersByProvider.size === 0) {
+    console.log('   - Dry run: nothing to translate.');
+    return;
+  }
+  for (const [provider, characters] of charactersByProvider) {
+    console.log(`   - Dry run: ~${characters} character(s) would be sent to ${provider}`);
+  }
+}
+
+// --- BUILD STATUS ---
+
+interface BuildStatusReport {
+  status: BuildStatus;
+  namespaces: { namespace: string; status: BuildStatus; staleKeys: string[]; error?: string }[];
+}
+
+function namespaceStatus(summary: NamespaceSummary): BuildStatus {
+  if (summary.error) return 'failed';
+  const incomplete = summary.languages.some(lang => lang.status === 'failed' || lang.status === 'partial');
+  return incomplete || summary.staleKeys.length > 0 ? 'degraded' : 'complete';
+}
+
+function buildStatusReport(summaries: NamespaceSummary[]): BuildStatusReport {
+  const namespaces = summaries.map(summary => ({
+    namespace: summary.namespace,
+    status: namespaceStatus(summary),
+    staleKeys: summary.staleKeys,
+    ...(summary.error ? { error: summary.error } : {}),
+  }));
+  const statuses = namespaces.map(namespace => namespace.status);
+  const status: BuildStatus = statuses.includes('failed') ? 'failed' : statuses.includes('degraded') ? 'degraded' : 'complete';
+  return { status, namespaces };
+}
+
+/** At most this many stale keys are listed per namespace; the status file has all of them. */
+const STALE_KEYS_SHOWN = 10;
+
+function printBuildStatus(report: BuildStatusReport): void {
+  console.log(`\n--- Status: ${report.status.toUpperCase()} ---`);
+  for (const { namespace, status, staleKeys, error } of report.namespaces) {
+    if (status === 'complete') continue;
+    if (error) {
+      console.log(`   - ${namespace}: failed (${error}), published files left unchanged`);
+      continue;
+    }
+    const shown = staleKeys.slice(0, STALE_KEYS_SHOWN).join(', ');
+    const more = staleKeys.length > STALE_KEYS_SHOWN ? ` and ${staleKeys.length - STALE_KEYS_SHOWN} more` : '';
+    console.log(`   - ${namespace}: degraded, ${staleKeys.length} missing or stale string(s)${staleKeys.length > 0 ? `: ${shown}${more}` : ''}`);
+  }
+}
+
+// --- RUN REPORT ---
+
+function printProviderUsage(totals: ProviderTotals[]): void {
+  if (totals.length === 0) return;
+  console.log('\n--- Provider usage ---');
+  for (const total of totals) {
+    const problems = [
+      total.retries > 0 ? `${total.retries} retried` : '',
+      total.failedRequests > 0 ? `${total.failedRequests} failed` : '',
+      total.skippedRequests > 0 ? `${total.skippedRequests} skipped` : '',
+    ].filter(Boolean);
+    const budget = total.budget && !total.budget.error
+      ? `, budget ${total.budget.budget} (${(total.budget.usedBefore ?? 0) + total.budget.sent} used)`
+      : '';
+    console.log(
+      `   - ${total.provider}: ${total.requests} request(s), ${total.characters} character(s), ${total.accepted} string(s)` +
+      (total.acceptedAsFallback > 0 ? ` (${total.acceptedAsFallback} as fallback)` : '') +
+      (problems.length > 0 ? `, ${problems.join(', ')}` : '') +
+      budget
+    );
+  }
+}
+
+function buildRunReport(summaries: NamespaceSummary[], status: BuildStatusReport, providers: ProviderTotals[]): RunReport {
+  return {
+    status: status.status,
+    commit: process.env.GITHUB_SHA,
+    generatedAt: new Date().toISOString(),
+    providers,
+    namespaces: summaries.map((summary, index) => ({
+      namespace: summary.namespace,
+      sourceLanguage: summary.sourceLanguage,
+      status: status.namespaces[index].status,
+      ...(summary.error ? { error: summary.error } : {}),
+      strings: summary.strings,
+      staleKeys: summary.staleKeys,
+      staleOverrides: summary.staleOverrides,
+      languages: summary.languages.map(({ estimates, ...lang }) => lang),
+    })),
+  };
+}
+
+/**
+ * Builds the jobs to run from the CLI arguments: every configured namespace (`--all`),
+ * a selection of them (`--namespace`), or an ad-hoc `--source`/`--output` pair.
+ */
+function resolveJobs(
+  config: LoadedConfig,
+  argv: { all?: boolean; namespace?: string; source?: string; output?: string; languages?: string; providers?: string }
+): NamespaceJob[] {
+  const languagesOverride = argv.languages ? argv.languages.split(',').map(lang => normalizeLocale(lang)) : undefined;
+
+  if (argv.source && argv.output) {
+    const languages = languagesOverride ?? config.languages;
+    return [{
+      namespace: path.basename(argv.output),
+      sourcePath: argv.source,
+      outputDir: argv.output,
+      sourceLanguage: detectSourceLanguage(argv.source, config),
+      languages,
+      fallbacks: Object.fromEntries(languages.map(lang => [lang, resolveFallbackChain(lang, undefined, config)])),
+      providerRouting: parseProviderRouting(argv.providers ?? config.providers),
+    }];
+  }
+
+  let namespaces = config.namespaces;
+  if (!argv.all) {
+    const requested = (argv.namespace || '').split(',').map(name => name.trim()).filter(Boolean);
+    const unknown = requested.filter(name => !config.namespaces.some(ns => ns.name === name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown namespace(s): ${unknown.join(', ')}. Configured: ${config.namespaces.map(ns => ns.name).join(', ')}`);
+    }
+    namespaces = config.namespaces.filter(ns => requested.includes(ns.name));
+  }
+
+  return namespaces.map(ns => {
+    const languages = languagesOverride ?? ns.languages ?? config.languages;
+    return {
+      namespace: ns.name,
+      sourcePath: ns.source,
+      outputDir: path.join(config.outputDir, ns.name),
+      sourceLanguage: ns.sourceLanguage ?? detectSourceLanguage(ns.source, config),
+      languages,
+      fallbacks: Object.fromEntries(languages.map(lang => [lang, resolveFallbackChain(lang, ns, config)])),
+      providerRouting: parseProviderRouting(argv.providers ?? ns.providers ?? config.providers),
+    };
+  });
+}
+
+/**
+ * Loads the translation memory and seeds it from the published files in CACHE_DIR, for
+ * every configured namespace, so texts from other namespaces are reused too.
+ */
+async function openTranslationMemory(memoryPath: string, config: LoadedConfig, jobs: NamespaceJob[]): Promise<TranslationMemory> {
+  const memory = await loadTranslationMemory(memoryPath);
+  if (CACHE_DIR) {
+    const seedSources = [...resolveJobs(config, { all: true }), ...jobs.filter(job => !config.namespaces.some(ns => ns.name === job.namespace))];
+    const seeded = await memory.seedFromCache(CACHE_DIR, seedSources);
+    if (seeded > 0) console.log(`Seeded the translation memory with ${seeded} published translation(s) from ${CACHE_DIR}`);
+  }
+  return memory;
+}
+
+async function run() {
+  const argv = await yargs(hideBin(process.argv))
+    .option('all', { alias: 'a', type: 'boolean', description: 'Translate every namespace declared in the config' })
+    .option('namespace', { alias: 'n', type: 'string', description: 'Comma-separated list of configured namespaces to translate' })
+    .option('source', { alias: 's', type: 'string', description: 'Source JSON file path (ad-hoc namespace, requires --output)' })
+    .option('output', { alias: 'o', type: 'string', description: 'Base output directory for translated files (ad-hoc namespace)' })
+    .option('config', { alias: 'c', type: 'string', description: 'Path to translations.config.(json|ts). Defaults to the repository root.' })
+    .option('languages', {
+      alias: 'l',
+      type: 'string',
+      description: 'Optional: Comma-separated list of target language codes (e.g., en,de,az). If not provided, the configured languages will be translated.',
+    })
+    .option('providers', {
+      alias: 'p',
+      type: 'string',
+      default: process.env.TRANSLATION_PROVIDERS,
+      description: 'Optional: Provider fallback order, with per-language overrides and pivots (e.g., deepl,google;az=google@en). Use "mock" to run offline. Overrides the config.',
+    })
+    .option('concurrency', { type: 'number', description: 'How many namespaces to translate at once. Overrides the config.' })
+    .option('request-concurrency', { type: 'number', description: 'How many requests each provider gets at once. Overrides the config.' })
+    .option('manifest', {
+      type: 'boolean',
+      default: true,
+      description: 'Write manifest.json (file hashes, key counts, coverage) to the output directory. Ignored for --source runs.',
+    })
+    .option('memory', {
+      type: 'boolean',
+      default: true,
+      description: 'Reuse and record translations in the translation memory (path set in the config).',
+    })
+    .option('strict', {
+      type: 'boolean',
+      default: false,
+      description: 'Exit with a non-zero code if any string failed validation with every provider or an override is stale.',
+    })
+    .option('validation-report', {
+      type: 'string',
+      default: process.env.TRANSLATION_VALIDATION_REPORT,
+      description: 'Optional: Path of a JSON file to write validation issues to.',
+    })
+    .option('dry-run', {
+      type: 'boolean',
+      default: false,
+      description: 'List new, changed, removed and overridden keys and estimate provider characters, without calling providers or writing files.',
+    })
+    .option('diff', {
+      type: 'boolean',
+      default: false,
+      description: 'Print old and new values of every key whose translation changes.',
+    })
+    .option('report', {
+      type: 'string',
+      default: process.env.TRANSLATION_REPORT,
+      description: 'Optional: Path of a JSON run report (string sources, provider requests, characters, failures). A Markdown version is written next to it.',
+    })
+    .option('status-file', {
+      type: 'string',
+      default: process.env.TRANSLATION_STATUS_FILE,
+      description: 'Optional: Path of a JSON file to write the build status (complete, degraded, failed) and the stale keys to.',
+    })
+    .implies('source', 'output')
+    .implies('output', 'source')
+    .check(args => {
+      if (!args.all && !args.namespace && !args.source) {
+        throw new Error('Specify --all, --namespace <name> or --source <file> --output <dir>.');
+      }
+      return true;
+    })
+    .help().argv;
+
+  try {
+    const config = await loadConfig(argv.config);
+    const jobs = resolveJobs(config, argv);
+    const shared: SharedInputs = {
+      overrides: await loadOverrides(),
+      lengthLimits: await loadLengthLimits(),
+      glossary: await loadGlossary(),
+      scheduler: createRequestScheduler({ ...config.requests, concurrency: argv.requestConcurrency ?? config.requests.concurrency }),
+      usage: createUsageTracker(config.budgets),
+      memory: argv.memory && config.memory ? await openTranslationMemory(config.memory, config, jobs) : null,
+    };
+
+    const options: RunOptions = { dryRun: argv.dryRun, diff: argv.diff };
+
+    const concurrency = argv.concurrency ?? config.concurrency;
+    const summaries = jobs.length === 1
+      ? [await translateNamespace(jobs[0], shared, options)]
+      : await mapWithConcurrency(jobs, concurrency, job => withBufferedConsole(() => translateNamespace(job, shared, options)));
+
+    if (jobs.length > 1 || options.dryRun) printSummary(summaries, options.dryRun);
+
+    if (shared.memory?.isDirty() && config.memory && !options.dryRun) {
+      await shared.memory.save(config.memory);
+      console.log(`\nTranslation memory saved to ${config.memory} (${shared.memory.size()} entries)`);
+    }
+
+    // --- MANIFEST ---
+    if (argv.manifest && !argv.source && !options.dryRun) {
+      const manifest = await writeManifest(config);
+      console.log(`\nManifest ${manifest.version} written to ${path.join(config.outputDir, 'manifest.json')}`);
+      describeCoverage(manifest).forEach(line => console.log(`   - ${line}`));
+    }
+
+    // --- VALIDATION REPORT ---
+    const validationIssues = summaries.flatMap(summary => summary.validationIssues);
+    const unresolvedIssues = validationIssues.filter(issue => issue.severity === 'error' && !issue.resolved);
+    if (argv.validationReport && !options.dryRun) {
+      await fs.mkdir(path.dirname(path.resolve(argv.validationReport)), { recursive: true });
+      await fs.writeFile(argv.validationReport, JSON.stringify({
+        namespaces: summaries.map(summary => summary.namespace),
+        unresolved: unresolvedIssues.length,
+        issues: validationIssues,
+      }, null, 2), 'utf-8');
+      console.log(`\nValidation report written to ${argv.validationReport}`);
+    }
+    if (validationIssues.length > 0) {
+      const warnings = validationIssues.filter(issue => issue.severity === 'warning').length;
+      console.warn(`\nValidation: ${validationIssues.length} issue(s), ${unresolvedIssues.length} unresolved, ${warnings} warning(s).`);
+    }
+
+    // --- STALE OVERRIDES ---
+    const staleOverrides = summaries.flatMap(summary => summary.staleOverrides.map(entry => `${summary.namespace}/${entry}`));
+    if (staleOverrides.length > 0) {
+      console.warn(`\nStale overrides: ${staleOverrides.length} override(s) were written for a source text that has since changed.`);
+      staleOverrides.forEach(entry => console.warn(`   - ${entry}`));
+      console.warn('Update them in source/translation-overrides.json (with the new sourceHash) or remove them.');
+    }
+
+    if (options.dryRun) {
+      console.log('\nDry run complete. No files were written.');
+      return;
+    }
+
+    // --- PROVIDER USAGE ---
+    const requests = summaries.flatMap(summary => summary.languages.flatMap(lang => lang.requests));
+    const providerUsage = summarizeProviderUsage(requests, shared.usage.budgets());
+    printProviderUsage(providerUsage);
+
+    // --- BUILD STATUS ---
+    const report = buildStatusReport(summaries);
+    printBuildStatus(report);
+    if (argv.statusFile) {
+      await fs.mkdir(path.dirname(path.resolve(argv.statusFile)), { recursive: true });
+      await writeFileAtomic(argv.statusFile, JSON.stringify(report, null, 2));
+      console.log(`Build status written to ${argv.statusFile}`);
+    }
+
+    // --- RUN REPORT ---
+    if (argv.report) {
+      const runReport = buildRunReport(summaries, report, providerUsage);
+      const markdownPath = `${argv.report.replace(/\.json$/i, '')}.md`;
+      await fs.mkdir(path.dirname(path.resolve(argv.report)), { recursive: true });
+      await writeFileAtomic(argv.report, JSON.stringify(runReport, null, 2));
+      await writeFileAtomic(markdownPath, renderRunReport(runReport));
+      console.log(`Run report written to ${argv.report} and ${markdownPath}`);
+    }
+
+    const failedNamespaces = summaries.filter(summary => summary.error);
+    if (failedNamespaces.length > 0) {
+      console.error(`\n${failedNamespaces.length} namespace(s) failed: ${failedNamespaces.map(summary => summary.namespace).join(', ')}`);
+      process.exit(EXIT_CODES.failed);
+    }
+    if (argv.strict && unresolvedIssues.length > 0) {
+      console.error('Strict mode: failing because some strings did not pass validation.');
+      process.exit(EXIT_CODES.failed);
+    }
+    if (argv.strict && staleOverrides.length > 0) {
+      console.error('Strict mode: failing because some overrides are stale.');
+      process.exit(EXIT_CODES.failed);
+    }
+    if (report.status === 'degraded') {
+      console.warn('\nAll namespaces were published, but some strings are missing or stale (exit code 2).');
+      process.exit(EXIT_CODES.degraded);
     }
 
     console.log('\nAll namespaces processed successfully!');
@@ -556,4 +1034,4 @@ async function run() {
   }
 }
 
-run(); 
\ No newline at end of file
+run();
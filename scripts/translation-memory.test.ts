@@ -0,0 +1,59 @@
+import assert from 'assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { md5 } from './entries';
+import { createTranslationMemory, MemorySeedSource, OFFLINE_KEYS_SUFFIX } from './translation-memory';
+
+const source = { title: 'Başarılı', button: 'Devam Et' };
+const entry = (translation: string, sourceText: string) => ({ translation, sourceHash: md5(sourceText) });
+
+let cacheDir: string;
+let seedSource: MemorySeedSource;
+
+async function publish(lang: string, files: { [suffix: string]: unknown }) {
+  for (const [suffix, content] of Object.entries(files)) {
+    await fs.writeFile(path.join(cacheDir, 'login', `${lang}${suffix}`), JSON.stringify(content), 'utf-8');
+  }
+}
+
+before(async () => {
+  cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'memory-test-'));
+  await fs.mkdir(path.join(cacheDir, 'login'));
+  const sourcePath = path.join(cacheDir, 'login.json');
+  await fs.writeFile(sourcePath, JSON.stringify(source), 'utf-8');
+  seedSource = { namespace: 'login', sourcePath, sourceLanguage: 'tr', languages: ['tr', 'de', 'en-XA', 'fr'] };
+
+  // A mock build: every entry is listed as offline output.
+  await publish('de', {
+    '.json': { title: entry('[DE] Başarılı', source.title), button: entry('[DE] Devam Et', source.button) },
+    [OFFLINE_KEYS_SUFFIX]: { title: md5(source.title), button: md5(source.button) },
+  });
+  // Pseudo-locales are skipped even without the sidecar (files published before it existed).
+  await publish('en-XA', {
+    '.json': { title: entry('[Ɓåşåŕıļı one]', source.title), button: entry('[Ðéṽåɱ Éţ one]', source.button) },
+  });
+});
+
+after(() => fs.rm(cacheDir, { recursive: true, force: true }));
+
+describe('seedFromCache', () => {
+  it('adds nothing from files built by the mock or pseudo provider', async () => {
+    const memory = createTranslationMemory();
+    assert.equal(await memory.seedFromCache(cacheDir, [seedSource]), 0);
+    assert.equal(memory.size(), 0);
+    assert.equal(memory.isDirty(), false);
+  });
+
+  it('adds the provider output of a file that also holds offline entries', async () => {
+    await publish('fr', {
+      '.json': { title: entry('Réussi', source.title), button: entry('[FR] Devam Et', source.button) },
+      [OFFLINE_KEYS_SUFFIX]: { button: md5(source.button) },
+    });
+    const memory = createTranslationMemory();
+    assert.equal(await memory.seedFromCache(cacheDir, [seedSource]), 1);
+    assert.equal(memory.lookup('tr', 'fr', source.title)?.translation, 'Réussi');
+    assert.equal(memory.lookup('tr', 'fr', source.button), undefined);
+  });
+});
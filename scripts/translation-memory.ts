@@ -0,0 +1,257 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { flattenObject, isTranslationEntry, md5 } from './entries';
+import { isPseudoLocale, normalizeLocale } from './locales';
+import { loadMachineTranslations, restoreMachineTranslations } from './overrides';
+import { escapeXml, readAttributes, unescapeXml } from './xml';
+
+// --- TRANSLATION MEMORY ---
+//
+// Machine translations keyed by (source language, target language, source hash), shared
+// by every namespace and key. The translate loop looks texts up here before calling a
+// provider, so repeated strings and renamed keys are not paid for twice.
+
+/**
+ * Providers whose output stands in for a translation (`[DE] Devam Et`, pseudo-localized
+ * text). Their output is never stored, and entries they produced are never reused.
+ */
+const OFFLINE_PROVIDERS = new Set(['mock', 'pseudo']);
+
+/** Whether `provider` (as recorded, e.g. `deepl` or `mock@en` for pivots) is an offline provider. */
+export function isOfflineProvider(provider: string | null): boolean {
+  return provider !== null && OFFLINE_PROVIDERS.has(provider.split('@')[0]);
+}
+
+/**
+ * Keys of a published language file whose translation an offline provider produced, with
+ * the source hash it was produced for. Stored next to the file as `<lang>.offline.json`, so
+ * seeding from the published files of a mock build adds nothing.
+ */
+export type OfflineKeys = { [key: string]: string };
+
+export const OFFLINE_KEYS_SUFFIX = '.offline.json';
+
+export async function loadOfflineKeys(dir: string | undefined, namespace: string, lang: string): Promise<OfflineKeys> {
+  if (!dir) return {};
+  try {
+    return JSON.parse(await fs.readFile(path.resolve(dir, namespace, `${lang}${OFFLINE_KEYS_SUFFIX}`), 'utf-8'));
+  } catch (error) {
+    return {};
+  }
+}
+
+export interface MemoryEntry {
+  /** Source text, kept for TMX export. */
+  source: string;
+  translation: string;
+  /** Provider that produced the translation; null when it was seeded from published files. */
+  provider: string | null;
+  createdAt: string;
+}
+
+interface MemoryFile {
+  version: 1;
+  /** sourceLanguage → targetLanguage → md5(source) → entry */
+  entries: { [sourceLanguage: string]: { [targetLanguage: string]: { [sourceHash: string]: MemoryEntry } } };
+}
+
+/** A namespace whose published files can seed the memory. */
+export interface MemorySeedSource {
+  namespace: string;
+  sourcePath: string;
+  sourceLanguage: string;
+  languages: string[];
+}
+
+export interface TranslationMemory {
+  /** The stored translation of `sourceText`, unless an offline provider produced it. */
+  lookup(sourceLang: string, targetLang: string, sourceText: string): MemoryEntry | undefined;
+  /** Stores a translation, replacing an older one for the same source text. */
+  add(sourceLang: string, targetLang: string, sourceText: string, translation: string, provider: string | null, createdAt?: string): void;
+  /**
+   * Adds the translations found in `<cacheDir>/<namespace>/<lang>.json` whose source hash still
+   * matches the source file. Pseudo-locales and entries listed in `<lang>.offline.json` are
+   * skipped, and existing entries are kept. Returns the number of entries added.
+   */
+  seedFromCache(cacheDir: string, sources: MemorySeedSource[]): Promise<number>;
+  entries(): { sourceLang: string; targetLang: string; entry: MemoryEntry }[];
+  size(): number;
+  /** Whether anything was added since the memory was loaded. */
+  isDirty(): boolean;
+  save(filePath: string): Promise<void>;
+}
+
+export function createTranslationMemory(initial?: MemoryFile): TranslationMemory {
+  const data: MemoryFile = initial ?? { version: 1, entries: {} };
+  let dirty = false;
+
+  const bucket = (sourceLang: string, targetLang: string) => {
+    const bySource = data.entries[sourceLang] ??= {};
+    return bySource[targetLang] ??= {};
+  };
+
+  const memory: TranslationMemory = {
+    lookup(sourceLang, targetLang, sourceText) {
+      const entry = data.entries[sourceLang]?.[targetLang]?.[md5(sourceText)];
+      // Memories written before offline output was skipped may still hold some.
+      return entry && !isOfflineProvider(entry.provider) ? entry : undefined;
+    },
+
+    add(sourceLang, targetLang, sourceText, translation, provider, createdAt = new Date().toISOString()) {
+      const entries = bucket(sourceLang, targetLang);
+      const hash = md5(sourceText);
+      if (entries[hash]?.translation === translation && entries[hash].provider === provider) return;
+      entries[hash] = { source: sourceText, translation, provider, createdAt };
+      dirty = true;
+    },
+
+    async seedFromCache(cacheDir, sources) {
+      let added = 0;
+      for (const { namespace, sourcePath, sourceLanguage, languages } of sources) {
+        const flatSource = flattenObject(JSON.parse(await fs.readFile(sourcePath, 'utf-8')));
+        for (const lang of languages) {
+          // Pseudo-localized text is generated, not a translation.
+          if (lang === sourceLanguage || isPseudoLocale(lang)) continue;
+          let cached: { [key: string]: any };
+          try {
+            cached = flattenObject(JSON.parse(await fs.readFile(path.resolve(cacheDir, namespace, `${lang}.json`), 'utf-8')));
+          } catch (error) {
+            continue; // Language not published yet
+          }
+          // Overrides are key-specific; the memory only reuses what a provider produced.
+          cached = restoreMachineTranslations(cached, await loadMachineTranslations(cacheDir, namespace, lang, cached));
+          const offlineKeys = await loadOfflineKeys(cacheDir, namespace, lang);
+          const entries = bucket(sourceLanguage, lang);
+          for (const [key, entry] of Object.entries(cached)) {
+            const sourceText = flatSource[key];
+            if (!isTranslationEntry(entry) || typeof sourceText !== 'string' || entry.sourceHash !== md5(sourceText)) continue;
+            if (offlineKeys[key] === entry.sourceHash) continue;
+            if (entries[entry.sourceHash]) continue;
+            entries[entry.sourceHash] = {
+              source: sourceText,
+              translation: entry.translation,
+              provider: null,
+              createdAt: new Date().toISOString(),
+            };
+            added++;
+          }
+        }
+      }
+      if (added > 0) dirty = true;
+      return added;
+    },
+
+    entries: () => Object.entries(data.entries).flatMap(([sourceLang, targets]) =>
+      Object.entries(targets).flatMap(([targetLang, entries]) =>
+        Object.values(entries).map(entry => ({ sourceLang, targetLang, entry }))
+      )
+    ),
+
+    size: () => memory.entries().length,
+
+    isDirty: () => dirty,
+
+    async save(filePath) {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
+      dirty = false;
+    },
+  };
+  return memory;
+}
+
+/**
+ * Loads the memory stored at `filePath`. Returns an empty memory if the file doesn't
+ * exist or can't be parsed.
+ */
+export async function loadTranslationMemory(filePath: string): Promise<TranslationMemory> {
+  try {
+    const content = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    if (content?.version === 1 && typeof content.entries === 'object') return createTranslationMemory(content);
+  } catch (error) {
+    // No memory yet - start empty
+  }
+  return createTranslationMemory();
+}
+
+// --- TMX EXPORT / IMPORT ---
+
+const TMX_PROVIDER_PROP = 'x-provider';
+
+/** `2026-01-01T10:00:00.000Z` ↔ TMX's `20260101T100000Z`. */
+function toTmxDate(isoDate: string): string {
+  return isoDate.replace(/[-:]/g, '').replace(/\.\d+/, '');
+}
+
+function fromTmxDate(tmxDate: string | undefined): string | undefined {
+  const match = tmxDate?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}.000Z` : undefined;
+}
+
+/**
+ * Serializes the memory as TMX 1.4, one translation unit per entry. The provider is
+ * kept as a `x-provider` prop and the timestamp as `creationdate`.
+ */
+export function exportTmx(memory: TranslationMemory, filter: { sourceLang?: string; targetLang?: string } = {}): string {
+  const units = memory.entries()
+    .filter(({ sourceLang, targetLang }) =>
+      (!filter.sourceLang || sourceLang === normalizeLocale(filter.sourceLang)) &&
+      (!filter.targetLang || targetLang === normalizeLocale(filter.targetLang))
+    )
+    .map(({ sourceLang, targetLang, entry }) => [
+      `    <tu srclang="${sourceLang}" creationdate="${toTmxDate(entry.createdAt)}"${entry.provider ? ` creationid="${escapeXml(entry.provider)}"` : ''}>`,
+      ...(entry.provider ? [`      <prop type="${TMX_PROVIDER_PROP}">${escapeXml(entry.provider)}</prop>`] : []),
+      `      <tuv xml:lang="${sourceLang}"><seg>${escapeXml(entry.source)}</seg></tuv>`,
+      `      <tuv xml:lang="${targetLang}"><seg>${escapeXml(entry.translation)}</seg></tuv>`,
+      '    </tu>',
+    ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tmx version="1.4">',
+    `  <header creationtool="translations-source" creationtoolversion="1" segtype="sentence" o-tmf="json" adminlang="en" srclang="${filter.sourceLang ? normalizeLocale(filter.sourceLang) : '*all*'}" datatype="plaintext"/>`,
+    '  <body>',
+    ...units,
+    '  </body>',
+    '</tmx>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Adds the units of a TMX document to the memory. Every variant other than the source
+ * language becomes an entry. Returns the number of entries imported.
+ */
+export function importTmx(memory: TranslationMemory, xml: string): number {
+  const headerSourceLang = readAttributes(xml.match(/<header\b[^>]*>/)?.[0] ?? '').srclang;
+  let imported = 0;
+
+  for (const [, unitAttributes, unitBody] of xml.matchAll(/<tu\b([^>]*)>([\s\S]*?)<\/tu>/g)) {
+    const attributes = readAttributes(unitAttributes);
+    const variants = [...unitBody.matchAll(/<tuv\b([^>]*)>[\s\S]*?<seg>([\s\S]*?)<\/seg>[\s\S]*?<\/tuv>/g)]
+      .map(([, tuvAttributes, seg]) => ({ lang: readAttributes(tuvAttributes)['xml:lang'], text: unescapeXml(seg) }))
+      .filter(variant => variant.lang)
+      .map(variant => ({ ...variant, lang: normalizeLocale(variant.lang) }));
+    const provider = unitBody.match(new RegExp(`<prop type="${TMX_PROVIDER_PROP}">([\\s\\S]*?)</prop>`))?.[1];
+
+    const unitSourceLang = [attributes.srclang, headerSourceLang].find(lang => lang && lang !== '*all*');
+    // The memory is keyed by canonical tags (`pt-BR`), like the published files.
+    const sourceLang = unitSourceLang ? normalizeLocale(unitSourceLang) : variants[0]?.lang;
+    const source = variants.find(variant => variant.lang === sourceLang);
+    if (!source) continue;
+
+    for (const target of variants) {
+      if (target === source) continue;
+      memory.add(
+        sourceLang!,
+        target.lang,
+        source.text,
+        target.text,
+        provider ? unescapeXml(provider) : attributes.creationid ?? null,
+        fromTmxDate(attributes.creationdate)
+      );
+      imported++;
+    }
+  }
+  return imported;
+}
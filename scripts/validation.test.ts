@@ -0,0 +1,59 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { validateTranslation, ValidationRule } from './validation';
+
+/** The rules a translation breaks, in the order they are checked. */
+const rules = (sourceText: string, translation: string, maxLength?: number): ValidationRule[] =>
+  validateTranslation(sourceText, translation, maxLength).map(problem => problem.rule);
+
+describe('validateTranslation', () => {
+  it('accepts a translation that keeps everything the source has', () => {
+    assert.deepEqual(rules('{{count}} yeni mesaj 🎉\n{name} gönderdi', '{{count}} new messages 🎉\nsent by {name}', 40), []);
+  });
+
+  it('accepts placeholders in a different order', () => {
+    assert.deepEqual(rules('{from} → {to}', '{to} ← {from}'), []);
+  });
+
+  it('rejects missing, extra and renamed placeholders', () => {
+    assert.deepEqual(rules('{{count}} yeni mesaj', 'New messages'), ['placeholders']);
+    assert.deepEqual(rules('Yeni mesaj', '{{count}} new messages'), ['placeholders']);
+    assert.deepEqual(rules('{{count}} yeni mesaj', '{{anzahl}} neue Nachrichten'), ['placeholders']);
+    assert.deepEqual(rules('{name} ve {name}', '{name}'), ['placeholders']);
+  });
+
+  it('lists the expected and actual placeholders in the message', () => {
+    const [problem] = validateTranslation('{a} {b}', '{a}');
+    assert.equal(problem.severity, 'error');
+    assert.equal(problem.message, 'Expected placeholders [{a}, {b}], got [{a}]');
+  });
+
+  it('rejects markers the provider left behind, in any case', () => {
+    assert.deepEqual(rules('Devam Et', 'Continue XPLACEHOLDERX0XPLACEHOLDERX'), ['leftover-marker']);
+    assert.deepEqual(rules('Devam Et', 'Continue xplaceholderx0'), ['leftover-marker']);
+    assert.deepEqual(rules('Devam Et', 'Continue \u00000\u0000'), ['leftover-marker']);
+  });
+
+  it('rejects a different number of line breaks', () => {
+    assert.deepEqual(rules('Satır 1\nSatır 2', 'Line 1 Line 2'), ['line-breaks']);
+    assert.deepEqual(rules('Satır', 'Line\n'), ['line-breaks']);
+  });
+
+  it('rejects lost or changed emoji', () => {
+    assert.deepEqual(rules('Tebrikler 🎉', 'Congratulations'), ['emoji']);
+    assert.deepEqual(rules('Tebrikler 🎉', 'Congratulations 🎊'), ['emoji']);
+    assert.deepEqual(rules('📷 Çek', 'Shoot 📷'), []);
+  });
+
+  it('rejects translations over maxLength, counting code points and not bidi isolates', () => {
+    assert.deepEqual(rules('Devam Et', 'Continue', 8), []);
+    assert.deepEqual(rules('Devam Et', 'Continuer', 8), ['max-length']);
+    assert.deepEqual(rules('Tebrikler 🎉', 'Bravo 🎉', 7), []);
+    assert.deepEqual(rules('{name} ile paylaş', 'شارك \u2068{name}\u2069', 11), []);
+    assert.deepEqual(rules('Devam Et', 'A much longer continue label'), []);
+  });
+
+  it('reports every broken rule at once', () => {
+    assert.deepEqual(rules('{{count}} 🎉\nyeni', 'XPLACEHOLDERX0XPLACEHOLDERX new', 5), ['placeholders', 'leftover-marker', 'line-breaks', 'emoji', 'max-length']);
+  });
+});
@@ -0,0 +1,84 @@
+// --- POST-TRANSLATION VALIDATION ---
+
+export type ValidationRule = 'placeholders' | 'leftover-marker' | 'line-breaks' | 'emoji' | 'max-length' | 'glossary';
+
+export interface ValidationProblem {
+  rule: ValidationRule;
+  /** Errors reject the translation; warnings are only reported. */
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ValidationIssue extends ValidationProblem {
+  namespace?: string;
+  language?: string;
+  key: string;
+  provider: string;
+  translation: string;
+  /** True when a later provider produced a translation that passed validation. Always false for warnings. */
+  resolved: boolean;
+}
+
+const PLACEHOLDER_REGEX = /\{\{?\w+\}?\}/g;
+const LEFTOVER_MARKER_REGEX = /placeholderx\d|\dxplaceholder|\u0000/i;
+const EMOJI_REGEX = /\p{Extended_Pictographic}/gu;
+/** Bidi isolates added around placeholders in RTL output; invisible, so not counted. */
+const BIDI_ISOLATE_REGEX = /[\u2066-\u2069]/g;
+
+function sortedMatches(text: string, regex: RegExp): string[] {
+  return (text.match(regex) || []).sort();
+}
+
+function sameItems(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((item, index) => item === b[index]);
+}
+
+/**
+ * Checks a single translation against its source text.
+ * Returns an empty array when the translation is safe to publish.
+ */
+export function validateTranslation(sourceText: string, translation: string, maxLength?: number): ValidationProblem[] {
+  const problems: ValidationProblem[] = [];
+
+  const sourcePlaceholders = sortedMatches(sourceText, PLACEHOLDER_REGEX);
+  const translatedPlaceholders = sortedMatches(translation, PLACEHOLDER_REGEX);
+  if (!sameItems(sourcePlaceholders, translatedPlaceholders)) {
+    problems.push({
+      rule: 'placeholders',
+      severity: 'error',
+      message: `Expected placeholders [${sourcePlaceholders.join(', ')}], got [${translatedPlaceholders.join(', ')}]`,
+    });
+  }
+
+  const leftover = translation.match(LEFTOVER_MARKER_REGEX);
+  if (leftover) {
+    problems.push({ rule: 'leftover-marker', severity: 'error', message: `Translation still contains marker '${leftover[0]}'` });
+  }
+
+  const sourceLineBreaks = sourceText.split('\n').length - 1;
+  const translatedLineBreaks = translation.split('\n').length - 1;
+  if (sourceLineBreaks !== translatedLineBreaks) {
+    problems.push({
+      rule: 'line-breaks',
+      severity: 'error',
+      message: `Expected ${sourceLineBreaks} line break(s), got ${translatedLineBreaks}`,
+    });
+  }
+
+  const sourceEmoji = sortedMatches(sourceText, EMOJI_REGEX);
+  const translatedEmoji = sortedMatches(translation, EMOJI_REGEX);
+  if (!sameItems(sourceEmoji, translatedEmoji)) {
+    problems.push({
+      rule: 'emoji',
+      severity: 'error',
+      message: `Expected emoji [${sourceEmoji.join(' ')}], got [${translatedEmoji.join(' ')}]`,
+    });
+  }
+
+  const length = [...translation.replace(BIDI_ISOLATE_REGEX, '')].length;
+  if (maxLength !== undefined && length > maxLength) {
+    problems.push({ rule: 'max-length', severity: 'error', message: `Translation is ${length} characters, limit is ${maxLength}` });
+  }
+
+  return problems;
+}
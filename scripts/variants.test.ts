@@ -0,0 +1,78 @@
+import assert from 'assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import {
+  confirmedInheritance,
+  INHERITED_KEYS_SUFFIX,
+  loadInheritedKeys,
+  loadInheritedTranslations,
+  omitInherited,
+} from './variants';
+
+const entry = (translation: string, sourceHash: string) => ({ translation, sourceHash });
+
+const pt = { title: entry('Entrar', 'h-title'), button: entry('Continuar', 'h-button'), limit: 3 };
+const ptBR = { title: entry('Entrar', 'h-title'), button: entry('Prosseguir', 'h-button'), limit: 3 };
+
+describe('loadInheritedTranslations', () => {
+  it('merges the chain farthest first, so the nearest parent wins', async () => {
+    const files: { [lang: string]: { [key: string]: any } } = {
+      'zh': { title: entry('登录', 'h-title'), button: entry('继续', 'h-button') },
+      'zh-Hant': { title: entry('登入', 'h-title'), legacy: { ...entry('繼續', 'h-old'), machineTranslation: '继续' } },
+    };
+    const inherited = await loadInheritedTranslations(['zh-Hant', 'zh'], async lang => files[lang] ?? {});
+    assert.deepEqual(inherited, {
+      title: entry('登入', 'h-title'),
+      button: entry('继续', 'h-button'),
+      // Only `{ translation, sourceHash }` is carried over.
+      legacy: entry('繼續', 'h-old'),
+    });
+  });
+});
+
+describe('omitInherited', () => {
+  it('keeps the entries that differ and lists the inherited keys with their source hash', () => {
+    assert.deepEqual(omitInherited(ptBR, pt), {
+      own: { button: entry('Prosseguir', 'h-button') },
+      inheritedKeys: { title: 'h-title' },
+    });
+  });
+
+  it('keeps an entry with the same text but another source hash', () => {
+    const { own, inheritedKeys } = omitInherited({ title: entry('Entrar', 'h-new') }, pt);
+    assert.deepEqual(own, { title: entry('Entrar', 'h-new') });
+    assert.deepEqual(inheritedKeys, {});
+  });
+
+  it('keeps keys the parents do not have', () => {
+    assert.deepEqual(omitInherited({ extra: entry('Extra', 'h-extra'), limit: 5 }, pt).own, { extra: entry('Extra', 'h-extra'), limit: 5 });
+  });
+});
+
+describe('<lang>.inherited.json round trip', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'variants-test-'));
+    await fs.mkdir(path.join(dir, 'login'));
+    const { inheritedKeys } = omitInherited(ptBR, pt);
+    await fs.writeFile(path.join(dir, 'login', `pt-BR${INHERITED_KEYS_SUFFIX}`), JSON.stringify(inheritedKeys), 'utf-8');
+  });
+
+  after(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('reads back the inherited keys, or nothing when there is no sidecar', async () => {
+    assert.deepEqual(await loadInheritedKeys(dir, 'login', 'pt-BR'), { title: 'h-title' });
+    assert.deepEqual(await loadInheritedKeys(dir, 'login', 'pt'), {});
+    assert.deepEqual(await loadInheritedKeys(undefined, 'login', 'pt-BR'), {});
+  });
+
+  it('confirms the inherited entries while the parent is translated from the same source', async () => {
+    const inheritedKeys = await loadInheritedKeys(dir, 'login', 'pt-BR');
+    assert.deepEqual(confirmedInheritance(pt, inheritedKeys), { title: entry('Entrar', 'h-title') });
+    // The parent was translated from a newer source text: the variant has to translate it again.
+    assert.deepEqual(confirmedInheritance({ ...pt, title: entry('Iniciar sessão', 'h-title-2') }, inheritedKeys), {});
+  });
+});
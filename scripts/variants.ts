@@ -0,0 +1,75 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { isTranslationEntry } from './entries';
+
+// --- VARIANT FILES ---
+//
+// A variant (`pt-BR`) is published with only the keys that differ from its fallback chain
+// (`pt`); clients merge it over its parents. What it left out is recorded in a sidecar.
+
+/**
+ * What a variant inherits from its fallback chain: the parents' final translations merged
+ * farthest first, as `load` returns them. Overrides stay applied, so a variant that does not
+ * differ keeps showing its parent's override.
+ */
+export async function loadInheritedTranslations(
+  chain: string[],
+  load: (parent: string) => Promise<{ [key: string]: any }>
+): Promise<{ [key: string]: any }> {
+  const inherited: { [key: string]: any } = {};
+  for (const parent of [...chain].reverse()) {
+    for (const [key, value] of Object.entries(await load(parent))) {
+      inherited[key] = isTranslationEntry(value) ? { translation: value.translation, sourceHash: value.sourceHash } : value;
+    }
+  }
+  return inherited;
+}
+
+/**
+ * Keys a variant left to its fallback languages, with the source hash they were compared at.
+ * Stored next to the variant file as `<lang>.inherited.json`, so keys that were translated and
+ * matched the parent are not mistaken for keys that were never translated.
+ */
+export type InheritedKeys = { [key: string]: string };
+
+export const INHERITED_KEYS_SUFFIX = '.inherited.json';
+
+export async function loadInheritedKeys(dir: string | undefined, namespace: string, lang: string): Promise<InheritedKeys> {
+  if (!dir) return {};
+  try {
+    return JSON.parse(await fs.readFile(path.resolve(dir, namespace, `${lang}${INHERITED_KEYS_SUFFIX}`), 'utf-8'));
+  } catch (error) {
+    return {};
+  }
+}
+
+/** The inherited entries a variant confirmed in a previous run, i.e. its cached values for those keys. */
+export function confirmedInheritance(inherited: { [key: string]: any }, inheritedKeys: InheritedKeys): { [key: string]: any } {
+  const confirmed: { [key: string]: any } = {};
+  for (const [key, sourceHash] of Object.entries(inheritedKeys)) {
+    if (isTranslationEntry(inherited[key]) && inherited[key].sourceHash === sourceHash) confirmed[key] = inherited[key];
+  }
+  return confirmed;
+}
+
+/** Splits a variant's translations into the entries that differ from its parents and the inherited keys. */
+export function omitInherited(
+  translations: { [key: string]: any },
+  inherited: { [key: string]: any }
+): { own: { [key: string]: any }; inheritedKeys: InheritedKeys } {
+  const own: { [key: string]: any } = {};
+  const inheritedKeys: InheritedKeys = {};
+  for (const [key, value] of Object.entries(translations)) {
+    const parent = inherited[key];
+    if (isTranslationEntry(value) && isTranslationEntry(parent)) {
+      if (value.translation === parent.translation && value.sourceHash === parent.sourceHash) {
+        inheritedKeys[key] = value.sourceHash;
+        continue;
+      }
+    } else if (value === parent) {
+      continue;
+    }
+    own[key] = value;
+  }
+  return { own, inheritedKeys };
+}
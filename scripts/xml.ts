@@ -0,0 +1,28 @@
+// --- XML HELPERS ---
+//
+// Just enough XML for the TMX and XLIFF files the scripts write and read back: escaping
+// and the attributes of a single tag. Documents are matched with regular expressions.
+
+export function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+/** The attributes of a tag, unescaped. Names keep their case, as XML is case-sensitive. */
+export function readAttributes(tag: string): { [name: string]: string } {
+  const attributes: { [name: string]: string } = {};
+  for (const [, name, value] of tag.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[name] = unescapeXml(value);
+  }
+  return attributes;
+}
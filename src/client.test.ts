@@ -0,0 +1,122 @@
+import assert from 'assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { createMemoryStorage, createTranslationClient, TranslationManifest } from './client';
+
+// A local stand-in for the CDN: serves `files` by path and records every request.
+
+type Namespaces = { login: { [key: string]: {} } };
+
+const entry = (translation: string) => ({ translation, sourceHash: 'hash' });
+
+let files: { [path: string]: unknown } = {};
+let requests: string[] = [];
+let server: http.Server;
+let baseUrl: string;
+
+function manifest(hashes: { [language: string]: string }): TranslationManifest {
+  const languages = Object.fromEntries(Object.entries(hashes).map(([language, hash]) =>
+    [language, { hash, bytes: 0, keys: 0, missing: 0, stale: 0 }]
+  ));
+  return { version: Object.values(hashes).join('+'), namespaces: { login: { sourceLanguage: 'tr', keys: 2, languages } } };
+}
+
+function createClient(language: string, storage = createMemoryStorage()) {
+  return createTranslationClient<Namespaces>({ language, baseUrl, storage, sourceLanguages: { login: 'tr' } });
+}
+
+before(async () => {
+  server = http.createServer((request, response) => {
+    requests.push(request.url ?? '');
+    const body = files[request.url ?? ''];
+    if (body === undefined) {
+      response.writeHead(404);
+      response.end();
+      return;
+    }
+    response.writeHead(200, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  requests = [];
+  files = {
+    '/manifest.json': manifest({ tr: 'tr1', pt: 'pt1', 'pt-BR': 'ptbr1' }),
+    '/login/tr.json': { title: entry('Giriş'), button: entry('Devam Et') },
+    '/login/pt.json': { title: entry('Entrar'), button: entry('Continuar') },
+    '/login/pt-BR.json': { button: entry('Prosseguir') },
+  };
+});
+
+describe('createTranslationClient', () => {
+  it('downloads a namespace with the global fetch and merges a variant over its fallback', async () => {
+    const client = createClient('pt-BR');
+    await client.load('login');
+
+    assert.equal(client.t('login', 'title'), 'Entrar');
+    assert.equal(client.t('login', 'button'), 'Prosseguir');
+    assert.deepEqual(requests.sort(), ['/login/pt-BR.json', '/login/pt.json', '/manifest.json']);
+  });
+
+  it('normalizes the requested language before building URLs and cache keys', async () => {
+    const storage = createMemoryStorage();
+    const client = createClient('pt_br', storage);
+    await client.load('login');
+
+    assert.equal(client.getLanguage(), 'pt-BR');
+    assert.ok(requests.includes('/login/pt-BR.json'));
+    assert.notEqual(await storage.getItem('translations:login/pt-BR'), null);
+
+    requests = [];
+    await createClient('PT-br', storage).load('login');
+    assert.deepEqual(requests, ['/manifest.json']);
+  });
+
+  it('serves a cached namespace while the manifest is unchanged and reloads it when its hash changes', async () => {
+    const storage = createMemoryStorage();
+    await createClient('pt', storage).load('login');
+
+    requests = [];
+    const client = createClient('pt', storage);
+    await client.load('login');
+    assert.deepEqual(requests, ['/manifest.json']);
+
+    files['/manifest.json'] = manifest({ tr: 'tr1', pt: 'pt2', 'pt-BR': 'ptbr1' });
+    files['/login/pt.json'] = { title: entry('Iniciar sessão'), button: entry('Continuar') };
+    requests = [];
+    assert.deepEqual(await client.revalidate(), ['login']);
+    assert.equal(client.t('login', 'title'), 'Iniciar sessão');
+    assert.deepEqual(requests, ['/manifest.json', '/login/pt.json']);
+  });
+
+  it('falls back to the source language when the language has no file', async () => {
+    const client = createClient('de');
+    await client.load('login');
+
+    assert.equal(client.t('login', 'button'), 'Devam Et');
+    assert.deepEqual(requests, ['/manifest.json', '/login/de.json', '/login/tr.json']);
+  });
+
+  it('keeps serving the cached copy when the CDN is unavailable', async () => {
+    const storage = createMemoryStorage();
+    await createClient('pt', storage).load('login');
+
+    files = {};
+    const client = createClient('pt', storage);
+    await client.load('login');
+    assert.equal(client.t('login', 'title'), 'Entrar');
+  });
+
+  it('returns the key when nothing could be loaded', async () => {
+    files = {};
+    const client = createClient('pt');
+    await assert.rejects(client.load('login'));
+    assert.equal(client.t('login', 'title'), 'title');
+  });
+});
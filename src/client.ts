@@ -0,0 +1,253 @@
+import { normalizeLocale } from './locales';
+import { createTranslator, isTranslationEntry, Translator, unwrapTranslations } from './translator';
+
+// --- CDN CLIENT ---
+//
+// Loads `<baseUrl>/<namespace>/<lang>.json` on demand, keeps the files in a storage
+// adapter and only downloads them again when `<baseUrl>/manifest.json` changes.
+// Locale variants (`pt-BR`) only publish the keys that differ, so they are merged
+// over the files of their fallback languages (`pt`).
+
+export const DEFAULT_CDN_URL = 'https://machineco-arge.github.io/translations-source';
+
+/**
+ * Key/value storage used to persist downloaded namespaces between app starts.
+ * Compatible with `localStorage` and React Native `AsyncStorage`.
+ */
+export interface StorageAdapter {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+}
+
+export interface FetchResponseLike {
+  ok: boolean;
+  status: number;
+  json(): Promise<unknown>;
+}
+
+export type FetchLike = (url: string) => Promise<FetchResponseLike>;
+
+export interface TranslationManifestFile {
+  hash: string;
+  bytes: number;
+  keys: number;
+  missing: number;
+  stale: number;
+}
+
+/**
+ * Shape of `manifest.json`. Older deployments only have `version`; when
+ * `namespaces` is present, files are revalidated individually by content hash.
+ */
+export interface TranslationManifest {
+  version: string;
+  commit?: string;
+  generatedAt?: string;
+  namespaces?: {
+    [namespace: string]: {
+      sourceLanguage: string;
+      keys: number;
+      languages: { [language: string]: TranslationManifestFile };
+    };
+  };
+}
+
+export interface TranslationClientOptions {
+  /** Language to load, in any casing (`pt_br`, `pt-BR`). Can be changed later with `setLanguage`. */
+  language: string;
+  /** Source language per namespace, used when a namespace has no file for `language`. */
+  sourceLanguages: { [namespace: string]: string };
+  /**
+   * Fallback languages of locale variants, nearest first (e.g. `{ 'pt-BR': ['pt'] }`).
+   * Languages without an entry fall back to their shorter forms (`zh-Hant-TW` → `zh-Hant`, `zh`).
+   */
+  fallbacks?: { [language: string]: string[] };
+  /** CDN root. Defaults to the GitHub Pages deployment. */
+  baseUrl?: string;
+  /** Defaults to an in-memory storage, i.e. no persistence. */
+  storage?: StorageAdapter;
+  /** Defaults to the global `fetch` (browsers, React Native, Node 18+). */
+  fetch?: FetchLike;
+  /** Prefix for storage keys. */
+  storageKeyPrefix?: string;
+}
+
+interface CachedNamespace {
+  version: string;
+  /** Language of the file that was actually downloaded (differs from the requested one after a fallback). */
+  language: string;
+  data: unknown;
+}
+
+export interface TranslationClient<NS> {
+  t: Translator<NS>['t'];
+  /** Loads a namespace for the current language, from storage when it is still current. */
+  load(namespace: keyof NS & string): Promise<void>;
+  /** Switches language and reloads every namespace loaded so far. */
+  setLanguage(language: string): Promise<void>;
+  /**
+   * Fetches the manifest again and reloads the namespaces whose version changed.
+   * Returns the namespaces that were updated.
+   */
+  revalidate(): Promise<string[]>;
+  getLanguage(): string;
+}
+
+export function createMemoryStorage(): StorageAdapter {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, value); },
+  };
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, url: string) {
+    super(`Request to ${url} failed with HTTP ${status}`);
+  }
+}
+
+/** Merges translation files, later ones winning. Entries are merged as whole values. */
+function mergeTranslations(files: unknown[]): unknown {
+  return files.reduce((merged, file) => {
+    const isObject = (value: unknown): value is { [key: string]: unknown } =>
+      typeof value === 'object' && value !== null && !Array.isArray(value) && !isTranslationEntry(value);
+    if (!isObject(merged) || !isObject(file)) return file;
+    const result = { ...merged };
+    for (const [key, value] of Object.entries(file)) {
+      result[key] = key in result ? mergeTranslations([result[key], value]) : value;
+    }
+    return result;
+  }, undefined);
+}
+
+export function createTranslationClient<NS>(options: TranslationClientOptions): TranslationClient<NS> {
+  const baseUrl = (options.baseUrl ?? DEFAULT_CDN_URL).replace(/\/+$/, '');
+  const storage = options.storage ?? createMemoryStorage();
+  const fetchJson = async (url: string): Promise<unknown> => {
+    const response = await (options.fetch ?? fetch)(url);
+    if (!response.ok) throw new HttpError(response.status, url);
+    return response.json();
+  };
+  const prefix = options.storageKeyPrefix ?? 'translations:';
+  const translator = createTranslator<NS>();
+  const loadedNamespaces = new Map<string, string>(); // namespace → version
+  // Files are published under canonical tags, so requests, caches and fallbacks use them too.
+  const fallbacks = Object.fromEntries(Object.entries(options.fallbacks ?? {}).map(([lang, chain]) =>
+    [normalizeLocale(lang), chain.map(normalizeLocale)]
+  ));
+  let language = normalizeLocale(options.language);
+  let manifestPromise: Promise<TranslationManifest | null> | null = null;
+
+  /** The language followed by its fallbacks, nearest first. */
+  function languageChain(lang: string): string[] {
+    const subtags = lang.split('-');
+    const derived = subtags.slice(1).map((_, index) => subtags.slice(0, subtags.length - 1 - index).join('-'));
+    return [lang, ...(fallbacks[lang] ?? derived)];
+  }
+
+  function getManifest(): Promise<TranslationManifest | null> {
+    if (!manifestPromise) {
+      // Without a manifest (offline, CDN down) cached files are used as they are.
+      manifestPromise = fetchJson(`${baseUrl}/manifest.json`)
+        .then(manifest => manifest as TranslationManifest)
+        .catch(() => null);
+    }
+    return manifestPromise;
+  }
+
+  /**
+   * Version a namespace/language pair should have according to the manifest: the content
+   * hashes of the file and its fallbacks (or the source-language file's hash when none of
+   * them is published), falling back to the global version for manifests without per-file data.
+   */
+  function fileVersion(manifest: TranslationManifest, namespace: string, lang: string): string {
+    const entry = manifest.namespaces?.[namespace];
+    if (!entry) return manifest.version;
+    const hashes = languageChain(lang).map(candidate => entry.languages[candidate]?.hash).filter(Boolean);
+    if (hashes.length > 0) return hashes.join('+');
+    return entry.languages[entry.sourceLanguage]?.hash ?? manifest.version;
+  }
+
+  async function readCache(namespace: string, lang: string): Promise<CachedNamespace | null> {
+    try {
+      const raw = await storage.getItem(`${prefix}${namespace}/${lang}`);
+      return raw ? JSON.parse(raw) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async function download(namespace: string, lang: string, version: string): Promise<CachedNamespace> {
+    const sourceLanguage = options.sourceLanguages[namespace] && normalizeLocale(options.sourceLanguages[namespace]);
+    const chain = languageChain(lang);
+    const files = await Promise.all(chain.map(candidate =>
+      fetchJson(`${baseUrl}/${namespace}/${candidate}.json`).catch(error => {
+        if (error instanceof HttpError && error.status === 404) return null;
+        throw error;
+      })
+    ));
+    const found = chain.filter((_, index) => files[index] !== null);
+    if (found.length > 0) {
+      const data = mergeTranslations(files.filter(file => file !== null).reverse());
+      return { version, language: found[0], data };
+    }
+    if (!sourceLanguage || chain.includes(sourceLanguage)) {
+      throw new HttpError(404, `${baseUrl}/${namespace}/${lang}.json`);
+    }
+    const data = await fetchJson(`${baseUrl}/${namespace}/${sourceLanguage}.json`);
+    return { version, language: sourceLanguage, data };
+  }
+
+  async function loadNamespace(namespace: string): Promise<boolean> {
+    const lang = language;
+    const manifest = await getManifest();
+    const cached = await readCache(namespace, lang);
+
+    let entry = cached;
+    const expectedVersion = manifest ? fileVersion(manifest, namespace, lang) : '';
+    const isCurrent = cached !== null && (manifest === null || cached.version === expectedVersion);
+    if (!isCurrent) {
+      try {
+        entry = await download(namespace, lang, expectedVersion);
+        await storage.setItem(`${prefix}${namespace}/${lang}`, JSON.stringify(entry));
+      } catch (error) {
+        // Keep serving a stale copy rather than nothing.
+        if (!cached) throw error;
+      }
+    }
+
+    if (lang !== language || !entry) return false; // Language changed while loading
+    const changed = loadedNamespaces.get(namespace) !== entry.version || !translator.hasTranslations(namespace as keyof NS & string);
+    translator.setTranslations(namespace as keyof NS & string, unwrapTranslations(entry.data), entry.language);
+    loadedNamespaces.set(namespace, entry.version);
+    return changed;
+  }
+
+  return {
+    t: translator.t,
+
+    async load(namespace) {
+      if (loadedNamespaces.has(namespace)) return;
+      await loadNamespace(namespace);
+    },
+
+    async setLanguage(nextLanguage) {
+      language = normalizeLocale(nextLanguage);
+      await Promise.all([...loadedNamespaces.keys()].map(namespace => loadNamespace(namespace)));
+    },
+
+    async revalidate() {
+      manifestPromise = null;
+      const manifest = await getManifest();
+      if (!manifest) return [];
+      const stale = [...loadedNamespaces]
+        .filter(([namespace, version]) => version !== fileVersion(manifest, namespace, language))
+        .map(([namespace]) => namespace);
+      const results = await Promise.all(stale.map(namespace => loadNamespace(namespace)));
+      return stale.filter((_, index) => results[index]);
+    },
+
+    getLanguage: () => language,
+  };
+}
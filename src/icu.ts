@@ -0,0 +1,155 @@
+// --- ICU FORMATTING ---
+//
+// Runtime counterpart of scripts/icu.ts: formats `plural`, `selectordinal` and `select`
+// arguments and fills `{{name}}` / `{name}` placeholders. Branch bodies are message text,
+// never placeholders, so `{gender, select, male {He} other {They}}` needs only `gender`.
+
+import type { InterpolationValue } from './translator';
+
+export type MessageParams = { [name: string]: InterpolationValue };
+
+type ArgumentType = 'plural' | 'selectordinal' | 'select';
+
+interface Placeholder {
+  type: 'placeholder';
+  name: string;
+  /** The placeholder as written, kept when no value is passed. */
+  raw: string;
+}
+
+interface Argument {
+  type: ArgumentType;
+  name: string;
+  offset: number;
+  branches: { [key: string]: MessageNode[] };
+}
+
+type MessageNode = string | Placeholder | Argument;
+
+const PLACEHOLDER_REGEX = /^\{\{?\s*(\w+)\s*\}?\}/;
+const ARGUMENT_REGEX = /^\{\s*\w+\s*,\s*(plural|selectordinal|select)\s*,/;
+
+/**
+ * Parses a message into text, placeholders and arguments. Braces that start neither
+ * a placeholder nor an argument are kept as text. Throws on malformed arguments.
+ */
+function parseMessage(message: string): MessageNode[] {
+  let pos = 0;
+
+  const fail = (what: string): never => {
+    throw new Error(`Invalid ICU message at position ${pos}: ${what}`);
+  };
+  const skipWhitespace = () => {
+    while (pos < message.length && /\s/.test(message[pos])) pos++;
+  };
+  const expect = (char: string) => {
+    skipWhitespace();
+    if (message[pos] !== char) fail(`expected '${char}'`);
+    pos++;
+  };
+  const readWord = (pattern: RegExp, what: string): string => {
+    skipWhitespace();
+    const match = message.slice(pos).match(pattern) ?? fail(`expected ${what}`);
+    pos += match[0].length;
+    return match[0];
+  };
+
+  function parseNodes(nested: boolean): MessageNode[] {
+    const nodes: MessageNode[] = [];
+    let text = '';
+    const flush = () => {
+      if (text) nodes.push(text);
+      text = '';
+    };
+
+    while (pos < message.length) {
+      if (message[pos] === '}' && nested) break;
+      const rest = message.slice(pos);
+      const placeholder = rest.match(PLACEHOLDER_REGEX);
+      if (placeholder) {
+        flush();
+        nodes.push({ type: 'placeholder', name: placeholder[1], raw: placeholder[0] });
+        pos += placeholder[0].length;
+      } else if (ARGUMENT_REGEX.test(rest)) {
+        flush();
+        nodes.push(parseArgument());
+      } else {
+        text += message[pos++];
+      }
+    }
+    flush();
+    return nodes;
+  }
+
+  function parseArgument(): Argument {
+    expect('{');
+    const name = readWord(/^\w+/, 'an argument name');
+    expect(',');
+    const type = readWord(/^\w+/, 'an argument type') as ArgumentType;
+    expect(',');
+    skipWhitespace();
+    let offset = 0;
+    const offsetMatch = message.slice(pos).match(/^offset\s*:\s*(\d+)/);
+    if (offsetMatch) {
+      offset = Number(offsetMatch[1]);
+      pos += offsetMatch[0].length;
+    }
+
+    const branches: Argument['branches'] = {};
+    skipWhitespace();
+    while (message[pos] !== '}') {
+      if (pos >= message.length) fail('unterminated argument');
+      const key = readWord(/^=?\w+/, 'a branch key');
+      expect('{');
+      branches[key] = parseNodes(true);
+      expect('}');
+      skipWhitespace();
+    }
+    pos++;
+    return { type, name, offset, branches };
+  }
+
+  return parseNodes(false);
+}
+
+function formatNodes(nodes: MessageNode[], params: MessageParams, language: string | undefined, count?: string): string {
+  return nodes.map(node => {
+    if (typeof node === 'string') return count === undefined ? node : node.replace(/#/g, count);
+    if (node.type === 'placeholder') {
+      return Object.prototype.hasOwnProperty.call(params, node.name) ? String(params[node.name]) : node.raw;
+    }
+
+    const value = params[node.name];
+    if (node.type === 'select') {
+      const branch = (value !== undefined ? node.branches[String(value)] : undefined) ?? node.branches.other ?? [];
+      return formatNodes(branch, params, language, count);
+    }
+
+    const number = Number(value);
+    if (value === undefined || !Number.isFinite(number)) {
+      return formatNodes(node.branches.other ?? [], params, language, count);
+    }
+    const rules = new Intl.PluralRules(language, { type: node.type === 'plural' ? 'cardinal' : 'ordinal' });
+    const branch = node.branches[`=${number}`] ?? node.branches[rules.select(number - node.offset)] ?? node.branches.other ?? [];
+    return formatNodes(branch, params, language, new Intl.NumberFormat(language).format(number - node.offset));
+  }).join('');
+}
+
+const parsedMessages = new Map<string, MessageNode[] | null>();
+
+/**
+ * Formats a message for `language` (used for plural rules and `#` numbers; the runtime's
+ * default locale when omitted). Placeholders without a value are left as they are, and
+ * arguments without a value use their `other` branch. Malformed messages are returned unchanged.
+ */
+export function formatMessage(message: string, params: MessageParams = {}, language?: string): string {
+  if (!parsedMessages.has(message)) {
+    try {
+      parsedMessages.set(message, parseMessage(message));
+    } catch (error) {
+      parsedMessages.set(message, null);
+    }
+  }
+  const nodes = parsedMessages.get(message);
+  return nodes ? formatNodes(nodes, params, language) : message;
+}
@@ -0,0 +1,42 @@
+import { LOCALE_FALLBACKS, NAMESPACE_SOURCE_LANGUAGES, TranslationNamespaces } from './generated';
+import { createTranslationClient, TranslationClient, TranslationClientOptions } from './client';
+import { createTranslator } from './translator';
+
+export * from './generated';
+export {
+  createTranslator,
+  interpolate,
+  isTranslationEntry,
+  unwrapTranslations,
+} from './translator';
+export type { InterpolationValue, ParamsArgs, TranslationEntry, Translator } from './translator';
+export { createMemoryStorage, createTranslationClient, DEFAULT_CDN_URL } from './client';
+export type {
+  FetchLike,
+  FetchResponseLike,
+  StorageAdapter,
+  TranslationClient,
+  TranslationClientOptions,
+  TranslationManifest,
+  TranslationManifestFile,
+} from './client';
+
+/** Default translator instance, typed with the keys of every namespace in this package. */
+export const translator = createTranslator<TranslationNamespaces>();
+
+export const t = translator.t;
+export const setTranslations = translator.setTranslations;
+
+/**
+ * CDN client typed with this package's namespaces. Source-language and locale fallbacks come
+ * from translations.config.json, so only the language (and optionally storage) is needed.
+ */
+export function createClient(
+  options: Omit<TranslationClientOptions, 'sourceLanguages'> & Partial<Pick<TranslationClientOptions, 'sourceLanguages'>>
+): TranslationClient<TranslationNamespaces> {
+  return createTranslationClient<TranslationNamespaces>({
+    sourceLanguages: NAMESPACE_SOURCE_LANGUAGES,
+    fallbacks: LOCALE_FALLBACKS,
+    ...options,
+  });
+}
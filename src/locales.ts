@@ -0,0 +1,16 @@
+// --- LOCALES ---
+//
+// Shared with the build scripts (scripts/locales.ts), so the client requests files under
+// the same canonical tags the build publishes them as.
+
+/** `pt_br` → `pt-BR`, `ZH-HANT` → `zh-Hant`. */
+export function normalizeLocale(code: string): string {
+  const [language, ...subtags] = code.trim().replace(/_/g, '-').split('-');
+  return [
+    language.toLowerCase(),
+    ...subtags.map(subtag => {
+      if (subtag.length === 4) return subtag[0].toUpperCase() + subtag.slice(1).toLowerCase();
+      return subtag.length === 2 ? subtag.toUpperCase() : subtag.toLowerCase();
+    }),
+  ].join('-');
+}
@@ -0,0 +1,91 @@
+import { formatMessage } from './icu';
+
+// --- RUNTIME TRANSLATOR ---
+
+/** Entry format written by the translate script: `{ translation, sourceHash }`. */
+export interface TranslationEntry {
+  translation: string;
+  sourceHash: string;
+}
+
+export type InterpolationValue = string | number;
+
+/** Makes the params argument optional for keys without placeholders. */
+export type ParamsArgs<P> = {} extends P ? [params?: P] : [params: P];
+
+/**
+ * `NS` maps namespace → key → placeholder params, as generated into `./generated`
+ * (see `TranslationNamespaces`).
+ */
+export interface Translator<NS> {
+  /**
+   * Returns the translation for `key`, with `{{name}}` / `{name}` placeholders filled and ICU
+   * plural/select arguments formatted from `params`, using the plural rules of the namespace's
+   * language. Falls back to the key itself when the namespace or key has not been loaded.
+   */
+  t<N extends keyof NS & string, K extends keyof NS[N] & string>(namespace: N, key: K, ...params: ParamsArgs<NS[N][K]>): string;
+
+  /**
+   * Registers the contents of a `<namespace>/<lang>.json` file (entry format or plain strings).
+   * `language` is the file's language, for plural rules; the runtime's default locale when omitted.
+   */
+  setTranslations(namespace: keyof NS & string, data: unknown, language?: string): void;
+
+  hasTranslations(namespace: keyof NS & string): boolean;
+}
+
+export function isTranslationEntry(value: unknown): value is TranslationEntry {
+  return typeof value === 'object' && value !== null && 'translation' in value && 'sourceHash' in value;
+}
+
+/**
+ * Replaces `{ translation, sourceHash }` entries with their translation, recursively.
+ * Plain strings and other values are returned unchanged.
+ */
+export function unwrapTranslations(data: unknown): unknown {
+  if (isTranslationEntry(data)) return data.translation;
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return data;
+
+  const result: { [key: string]: unknown } = {};
+  for (const [key, value] of Object.entries(data)) {
+    result[key] = unwrapTranslations(value);
+  }
+  return result;
+}
+
+function lookup(data: unknown, key: string): unknown {
+  // Flat keys win over nested paths, e.g. "a.b" stored as-is.
+  if (typeof data === 'object' && data !== null && key in data) {
+    return (data as { [key: string]: unknown })[key];
+  }
+  return key.split('.').reduce<unknown>((node, segment) =>
+    typeof node === 'object' && node !== null ? (node as { [key: string]: unknown })[segment] : undefined,
+  data);
+}
+
+/** Fills placeholders and formats ICU arguments. ICU branch bodies are never treated as placeholders. */
+export function interpolate(text: string, params?: { [name: string]: InterpolationValue }, language?: string): string {
+  if (!params && !text.includes('{')) return text;
+  return formatMessage(text, params, language);
+}
+
+export function createTranslator<NS>(): Translator<NS> {
+  const namespaces = new Map<string, unknown>();
+  const languages = new Map<string, string | undefined>();
+
+  return {
+    t(namespace, key, ...[params]) {
+      const value = lookup(namespaces.get(namespace), key);
+      const text = isTranslationEntry(value) ? value.translation : value;
+      if (typeof text !== 'string') return key;
+      return interpolate(text, params as { [name: string]: InterpolationValue } | undefined, languages.get(namespace));
+    },
+
+    setTranslations(namespace, data, language) {
+      namespaces.set(namespace, unwrapTranslations(data));
+      languages.set(namespace, language);
+    },
+
+    hasTranslations: namespace => namespaces.has(namespace),
+  };
+}